@@ -0,0 +1,52 @@
+// Service worker: precaches the built app so it opens without a network connection.
+// The build replaces the placeholder below with the list of emitted files and a
+// version; a new build therefore installs a new worker and drops the old cache.
+const PRECACHE = self.__PRECACHE_MANIFEST__ || { version: 'dev', files: [] };
+const CACHE_PREFIX = 'weather-app-';
+const CACHE_NAME = CACHE_PREFIX + PRECACHE.version;
+const APP_SHELL = './';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then((cache) => cache.addAll([APP_SHELL, ...PRECACHE.files]))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((names) => Promise.all(
+        names
+          .filter((name) => name.startsWith(CACHE_PREFIX) && name !== CACHE_NAME)
+          .map((name) => caches.delete(name))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  // Forecast APIs live on other origins; their data is persisted by the app itself
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return;
+
+  // Pages: network first so deploys show up, the cached shell when offline
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request).catch(() => caches.match(APP_SHELL, { cacheName: CACHE_NAME }))
+    );
+    return;
+  }
+
+  // Hashed build assets never change: cache first, remembering anything new
+  event.respondWith(
+    caches.match(request).then((cached) => cached || fetch(request).then((response) => {
+      if (response.ok) {
+        const copy = response.clone();
+        caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+      }
+      return response;
+    }))
+  );
+});
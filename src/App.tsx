@@ -1,110 +1,515 @@
-import React, { useState } from 'react';
-import { Cloud, MapPin, AlertCircle, RefreshCw, Globe } from 'lucide-react';
+import { useState, useEffect, useRef } from 'react';
+import {
+  MapPin,
+  AlertCircle,
+  RefreshCw,
+  Globe,
+  Settings,
+  FlaskConical,
+  Sunrise,
+  Sunset,
+  Clock,
+  Columns3,
+  Link,
+  Check,
+  CalendarDays,
+  List,
+  Telescope,
+  FileText,
+  WifiOff
+} from 'lucide-react';
 import CitySearch from './components/CitySearch';
+import ProviderSelector from './components/ProviderSelector';
+import SettingsPanel from './components/SettingsPanel';
+import UnitPreferencesPanel from './components/UnitPreferencesPanel';
 import WeatherCard from './components/WeatherCard';
+import HourlyTimeline from './components/HourlyTimeline';
+import ForecastCharts from './components/ForecastCharts';
+import AstronomyView from './components/AstronomyView';
+import SunMoonPanel from './components/SunMoonPanel';
+import ExportMenu from './components/ExportMenu';
+import ForecastReport from './components/ForecastReport';
 import LoadingSpinner from './components/LoadingSpinner';
 import ErrorMessage from './components/ErrorMessage';
-import { fetchWeatherData, processWeatherData } from './utils/weatherApi';
-import { GeocodingResult, ProcessedWeatherData } from './types/weather';
+import FavoritesDashboard from './components/FavoritesDashboard';
+import ComparisonView from './components/ComparisonView';
+import AlertRulesPanel from './components/AlertRulesPanel';
+import { processWeatherData, processHourlyData, demoProvider } from './utils/weatherApi';
+import { DEFAULT_PROVIDER_ID, getProvider, getProviders } from './utils/providers';
+import { estimateUtcOffset } from './utils/sevenTimerApi';
+import { getDayAstronomy } from './utils/astronomy';
+import { WeatherApiError, isAbortError, toWeatherApiError } from './utils/errors';
+import { formatUtcOffset, differsFromViewer } from './utils/time';
+import { getCountryName } from './utils/countries';
+import {
+  loadFavorites,
+  saveFavorites,
+  isFavorite,
+  addFavorite,
+  removeFavorite,
+  renameFavorite,
+  moveFavorite,
+  getFavoriteId
+} from './utils/favorites';
+import { addComparisonCity, removeComparisonCity } from './utils/comparison';
+import {
+  ForecastView,
+  UrlState,
+  readUrlState,
+  readFavoriteShortcut,
+  buildUrlSearch,
+  isDifferentLocation
+} from './utils/urlState';
+import { loadLastViewedCity, saveLastViewedCity } from './utils/recentCity';
+import {
+  loadAlertRules,
+  saveAlertRules,
+  evaluateAlertRules,
+  getAlertsForDay,
+  getOfficialAlertsForDay
+} from './utils/alerts';
+import { UNIT_SYSTEMS, getUnitSystem } from './utils/units';
+import { getCachedAt, getForecastCacheKey } from './utils/cache';
+import { createLatestRequestTracker } from './utils/latestRequest';
+import {
+  getLastKnownForecast,
+  saveLastKnownForecast,
+  pruneLastKnownForecasts,
+  isOfflineError
+} from './utils/offline';
+import { getLocalizedCityName } from './i18n';
+import { usePreferences } from './contexts/PreferencesContext';
+import {
+  GeocodingResult,
+  ProcessedWeatherData,
+  HourlyForecastData,
+  WeatherDataPoint,
+  WeatherAlert,
+  WeatherResponse,
+  WeatherProvider
+} from './types/weather';
+
+interface LoadForecastOptions {
+  source?: WeatherProvider;
+  // Day to expand once the forecast is loaded, if it is part of it
+  dateToSelect?: string | null;
+  // Ask the provider even when a cached forecast is available
+  refresh?: boolean;
+}
 
 function App() {
-  const [selectedCity, setSelectedCity] = useState<GeocodingResult | null>(null);
+  const { preferences, updatePreferences, format, language, t } = usePreferences();
+  // A shared link decides the first view, before anything is fetched. Without a place in
+  // it, a home-screen shortcut picks a favorite, and otherwise the last viewed city reopens.
+  const [initialUrlState] = useState((): UrlState => {
+    const state = readUrlState(window.location.search);
+    if (state.city) return state;
+    const shortcut = readFavoriteShortcut(window.location.search);
+    const favorite = shortcut !== null ? loadFavorites()[shortcut] : undefined;
+    return { ...state, city: favorite?.city ?? loadLastViewedCity() };
+  });
+  const [selectedCity, setSelectedCity] = useState<GeocodingResult | null>(initialUrlState.city);
   const [weatherData, setWeatherData] = useState<ProcessedWeatherData[]>([]);
+  const [hourlyData, setHourlyData] = useState<HourlyForecastData[]>([]);
+  // The provider's unprocessed 3-hourly slots, kept for export
+  const [forecastList, setForecastList] = useState<WeatherDataPoint[]>([]);
+  const [officialAlerts, setOfficialAlerts] = useState<WeatherAlert[]>([]);
+  const [selectedDate, setSelectedDate] = useState<string | null>(initialUrlState.day);
+  const [view, setView] = useState<ForecastView>(initialUrlState.view);
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<WeatherApiError | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [locationInfo, setLocationInfo] = useState<WeatherResponse['city'] | null>(null);
+  const [showViewerTime, setShowViewerTime] = useState(false);
+  const [providerId, setProviderId] = useState(() => getProvider(initialUrlState.source ?? DEFAULT_PROVIDER_ID).id);
+  const [dataSource, setDataSource] = useState<string | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+  const [favorites, setFavorites] = useState(loadFavorites);
+  const [alertRules, setAlertRules] = useState(loadAlertRules);
+  const [isComparing, setIsComparing] = useState(false);
+  const [comparisonCities, setComparisonCities] = useState<GeocodingResult[]>([]);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [now, setNow] = useState(Date.now);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  // The forecast on screen is a stored copy because the network is unreachable
+  const [isLastKnown, setIsLastKnown] = useState(false);
+
+  useEffect(() => {
+    saveFavorites(favorites);
+    pruneLastKnownForecasts(favorites);
+  }, [favorites]);
+
+  useEffect(() => {
+    if (selectedCity) saveLastViewedCity(selectedCity);
+  }, [selectedCity]);
+
+  useEffect(() => {
+    saveAlertRules(alertRules);
+  }, [alertRules]);
+
+  const provider = getProvider(providerId);
+  // Only the most recent forecast request may update the screen; older ones are aborted
+  const [forecastRequests] = useState(createLatestRequestTracker);
+
+  // Keep the "x minutes ago" label current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
 
-  const handleCitySelect = async (city: GeocodingResult) => {
+  const applyForecast = (rawData: WeatherResponse, source: WeatherProvider, fetchedAt: number) => {
+    const processedData = processWeatherData(rawData);
+    setWeatherData(processedData);
+    setHourlyData(processHourlyData(rawData));
+    setForecastList(rawData.list);
+    setOfficialAlerts(rawData.alerts ?? []);
+    setLocationInfo(rawData.city);
+    setDataSource(source.name);
+    setLastUpdated(new Date(fetchedAt));
+    return processedData;
+  };
+
+  // Saved locations keep their latest forecast for offline use
+  const rememberForecast = (city: GeocodingResult, source: WeatherProvider, response: WeatherResponse, fetchedAt: number) => {
+    if (isFavorite(favorites, city)) {
+      saveLastKnownForecast(city, { providerId: source.id, response, fetchedAt });
+    }
+  };
+
+  const loadForecast = async (city: GeocodingResult, options: LoadForecastOptions = {}) => {
+    const { source = provider, dateToSelect = null, refresh = false } = options;
+    const cacheKey = getForecastCacheKey(source.id, city.lat, city.lon, language);
+    const { signal, isLatest } = forecastRequests.start();
     setSelectedCity(city);
     setLoading(true);
     setError(null);
 
     try {
-      const rawData = await fetchWeatherData(city.lat, city.lon);
-      const processedData = processWeatherData(rawData);
-      
-      setWeatherData(processedData);
-      setLastUpdated(new Date());
+      const rawData = await source.fetchForecast(city.lat, city.lon, {
+        lang: language,
+        refresh,
+        signal,
+        // Cached data is shown straight away and swapped for the refreshed forecast when it arrives
+        onRevalidate: (freshData) => {
+          rememberForecast(city, source, freshData, Date.now());
+          if (isLatest()) applyForecast(freshData, source, Date.now());
+        }
+      });
+      if (!isLatest()) return;
+      const fetchedAt = getCachedAt(cacheKey) ?? Date.now();
+      rememberForecast(city, source, rawData, fetchedAt);
+      const processedData = applyForecast(rawData, source, fetchedAt);
+      setSelectedDate(processedData.some(day => day.date === dateToSelect) ? dateToSelect : null);
+      setIsLastKnown(false);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+      if (!isLatest() || isAbortError(err)) return;
+      const apiError = toWeatherApiError(err, source.name);
+      const lastKnown = isOfflineError(apiError) ? getLastKnownForecast(city) : null;
+      if (lastKnown) {
+        const processedData = applyForecast(lastKnown.response, getProvider(lastKnown.providerId), lastKnown.fetchedAt);
+        setSelectedDate(processedData.some(day => day.date === dateToSelect) ? dateToSelect : null);
+        setIsLastKnown(true);
+        return;
+      }
+      setIsLastKnown(false);
+      setError(apiError);
       setWeatherData([]);
+      setHourlyData([]);
+      setForecastList([]);
+      setOfficialAlerts([]);
+      setLocationInfo(null);
     } finally {
-      setLoading(false);
+      if (isLatest()) setLoading(false);
     }
   };
 
-  const handleRetry = () => {
-    if (selectedCity) {
-      handleCitySelect(selectedCity);
+  // Bring the app to the state described by a URL, on load and on back/forward
+  const applyUrlState = (state: UrlState) => {
+    const source = getProvider(state.source ?? DEFAULT_PROVIDER_ID);
+    setProviderId(source.id);
+    setView(state.view);
+    if (state.units) {
+      updatePreferences({ units: UNIT_SYSTEMS[state.units] });
+    }
+
+    if (state.city) {
+      loadForecast(state.city, { source, dateToSelect: state.day });
+    } else {
+      setSelectedCity(null);
+      setSelectedDate(null);
+      setWeatherData([]);
+      setHourlyData([]);
+      setForecastList([]);
+      setOfficialAlerts([]);
+      setLocationInfo(null);
+      setError(null);
     }
   };
 
-  const handleRefresh = () => {
+  const applyUrlStateRef = useRef(applyUrlState);
+  applyUrlStateRef.current = applyUrlState;
+
+  // Fetch the forecast on screen again once the connection is back
+  const resync = () => {
     if (selectedCity) {
-      handleCitySelect(selectedCity);
+      loadForecast(selectedCity, { dateToSelect: selectedDate });
     }
   };
 
-  const getCountryName = (countryCode: string) => {
-    const countryNames: Record<string, string> = {
-      'US': 'United States', 'CA': 'Canada', 'GB': 'United Kingdom', 'AU': 'Australia',
-      'DE': 'Germany', 'FR': 'France', 'IT': 'Italy', 'ES': 'Spain', 'NL': 'Netherlands',
-      'BR': 'Brazil', 'AR': 'Argentina', 'MX': 'Mexico', 'IN': 'India', 'CN': 'China',
-      'JP': 'Japan', 'KR': 'South Korea', 'RU': 'Russia', 'ZA': 'South Africa',
-      'NG': 'Nigeria', 'EG': 'Egypt', 'KE': 'Kenya', 'MA': 'Morocco', 'GH': 'Ghana',
-      'ET': 'Ethiopia', 'TN': 'Tunisia', 'DZ': 'Algeria', 'TH': 'Thailand', 'ID': 'Indonesia',
-      'PH': 'Philippines', 'SG': 'Singapore', 'MY': 'Malaysia', 'VN': 'Vietnam',
-      'BD': 'Bangladesh', 'PK': 'Pakistan', 'IR': 'Iran', 'SA': 'Saudi Arabia',
-      'AE': 'United Arab Emirates', 'TR': 'Turkey', 'UA': 'Ukraine', 'PL': 'Poland',
-      'CZ': 'Czech Republic', 'AT': 'Austria', 'CH': 'Switzerland', 'SE': 'Sweden',
-      'NO': 'Norway', 'DK': 'Denmark', 'FI': 'Finland', 'BE': 'Belgium', 'PT': 'Portugal',
-      'GR': 'Greece', 'IE': 'Ireland', 'HU': 'Hungary', 'CL': 'Chile', 'PE': 'Peru',
-      'CO': 'Colombia', 'VE': 'Venezuela', 'EC': 'Ecuador', 'BO': 'Bolivia',
-      'UY': 'Uruguay', 'PY': 'Paraguay', 'GY': 'Guyana', 'SR': 'Suriname',
-      'NZ': 'New Zealand', 'FJ': 'Fiji', 'WS': 'Samoa', 'TO': 'Tonga', 'VU': 'Vanuatu'
+  const resyncRef = useRef(resync);
+  resyncRef.current = resync;
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      resyncRef.current();
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
     };
-    return countryNames[countryCode] || countryCode;
+  }, []);
+
+  useEffect(() => {
+    // A city that did not come from the URL replaces the launch address instead of adding to history
+    if (!readUrlState(window.location.search).city) {
+      const search = buildUrlSearch(initialUrlState);
+      window.history.replaceState(null, '', `${window.location.pathname}${search}${window.location.hash}`);
+    }
+    applyUrlStateRef.current(initialUrlState);
+
+    const handlePopState = () => applyUrlStateRef.current(readUrlState(window.location.search));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [initialUrlState]);
+
+  // Mirror the view into the URL; a new place gets its own history entry
+  const unitSystem = getUnitSystem(preferences.units);
+  useEffect(() => {
+    const state: UrlState = {
+      city: selectedCity,
+      view,
+      day: selectedDate,
+      units: unitSystem,
+      source: providerId === DEFAULT_PROVIDER_ID ? null : providerId
+    };
+    const search = buildUrlSearch(state);
+    if (search === window.location.search) return;
+
+    const url = `${window.location.pathname}${search}${window.location.hash}`;
+    if (isDifferentLocation(readUrlState(window.location.search), state)) {
+      window.history.pushState(null, '', url);
+    } else {
+      window.history.replaceState(null, '', url);
+    }
+  }, [selectedCity, view, selectedDate, unitSystem, providerId]);
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (err) {
+      console.warn('Could not copy link:', err);
+    }
+  };
+
+  const handleCitySelect = (city: GeocodingResult) => {
+    if (isComparing) {
+      setComparisonCities(prev => addComparisonCity(prev, city));
+    } else {
+      loadForecast(city);
+    }
+  };
+
+  // Start comparing from the city currently on screen
+  const handleToggleComparison = () => {
+    if (!isComparing && selectedCity) {
+      setComparisonCities(prev => prev.length === 0 ? [selectedCity] : prev);
+    }
+    setIsComparing(prev => !prev);
+  };
+
+  const handleToggleFavorite = (city: GeocodingResult) => {
+    setFavorites(prev => isFavorite(prev, city)
+      ? removeFavorite(prev, getFavoriteId(city))
+      : addFavorite(prev, city));
+  };
+
+  const handleProviderChange = (id: string) => {
+    setProviderId(id);
+    if (selectedCity) {
+      loadForecast(selectedCity, { source: getProvider(id) });
+    }
+  };
+
+  const isDemoMode = provider.id === demoProvider.id;
+
+  const handleDaySelect = (date: string) => {
+    setSelectedDate(prev => prev === date ? null : date);
+  };
+
+  // Show a time at the location, plus the viewer's own time when requested
+  const formatTime = (dt: number) => {
+    if (!locationInfo) return format.viewerTime(dt);
+    const locationTime = format.time(dt, locationInfo.timezone);
+    return showViewerTime && differsFromViewer(locationInfo.timezone)
+      ? t('forecast.withViewerTime', { time: locationTime, viewerTime: format.viewerTime(dt) })
+      : locationTime;
+  };
+
+  const selectedDay = weatherData.find(day => day.date === selectedDate);
+  const alertMatches = evaluateAlertRules(alertRules, weatherData);
+  // Sunrise, twilight and moon for each forecast day, calculated rather than fetched
+  const dayAstronomy = selectedCity
+    ? weatherData.map(day => getDayAstronomy(selectedCity.lat, selectedCity.lon, day.date, locationInfo?.timezone ?? 0))
+    : [];
+  const visibleSlots = selectedDate
+    ? hourlyData.filter(slot => slot.date === selectedDate)
+    : hourlyData;
+
+  const handleUseDemo = () => {
+    handleProviderChange(demoProvider.id);
+  };
+
+  const handleApiKeyChange = () => {
+    if (selectedCity) {
+      loadForecast(selectedCity);
+    }
+  };
+
+  const handleRetry = () => {
+    if (selectedCity) {
+      loadForecast(selectedCity);
+    }
+  };
+
+  const handleRefresh = () => {
+    if (selectedCity) {
+      loadForecast(selectedCity, { refresh: true });
+    }
   };
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-blue-400 via-blue-500 to-purple-600">
-      <div className="container mx-auto px-4 py-8">
+    <div className="min-h-screen bg-gradient-to-br from-blue-400 via-blue-500 to-purple-600 print:bg-none print:bg-white">
+      <div className="container mx-auto px-4 py-8 print:max-w-none print:p-0">
         {/* Header */}
-        <div className="text-center mb-8">
+        <div className="text-center mb-8 print:hidden">
           <div className="flex items-center justify-center gap-3 mb-4">
             <Globe className="w-10 h-10 text-white" />
             <h1 className="text-4xl md:text-5xl font-bold text-white">
-              Global Weather Forecast
+              {t('app.title')}
             </h1>
           </div>
           <p className="text-white/90 text-lg md:text-xl max-w-4xl mx-auto">
-            Get accurate weather forecasts for any city worldwide. Search across all continents - from Lagos to Tokyo, 
-            New York to São Paulo, Cairo to Sydney. Complete global coverage with real-time data.
+            {t('app.tagline')}
           </p>
         </div>
 
+        {/* Data Source */}
+        <div className="flex items-center justify-center gap-4 print:hidden">
+          <ProviderSelector
+            providers={getProviders()}
+            selectedProviderId={providerId}
+            onProviderChange={handleProviderChange}
+          />
+          <button
+            onClick={() => setShowSettings(prev => !prev)}
+            className="flex items-center gap-2 bg-white/20 hover:bg-white/30 text-white text-sm px-3 py-2 rounded-lg transition-colors mb-6"
+          >
+            <Settings className="w-4 h-4" />
+            {t('app.settings')}
+          </button>
+          <button
+            onClick={handleToggleComparison}
+            className={`flex items-center gap-2 text-white text-sm px-3 py-2 rounded-lg transition-colors mb-6 ${
+              isComparing ? 'bg-white/40 hover:bg-white/50' : 'bg-white/20 hover:bg-white/30'
+            }`}
+          >
+            <Columns3 className="w-4 h-4" />
+            {isComparing ? t('compare.close') : t('compare.open')}
+          </button>
+        </div>
+
+        {/* Demo Mode */}
+        {isDemoMode && (
+          <div className="w-full max-w-3xl mx-auto mb-6 flex items-center justify-between gap-3 bg-amber-100 border border-amber-300 text-amber-900 rounded-xl px-4 py-3 print:hidden">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <FlaskConical className="w-5 h-5" />
+              {t('demo.banner')}
+            </div>
+            <button
+              onClick={() => handleProviderChange(DEFAULT_PROVIDER_ID)}
+              className="text-sm font-semibold underline hover:no-underline"
+            >
+              {t('demo.exit')}
+            </button>
+          </div>
+        )}
+
+        {/* Settings */}
+        {showSettings && (
+          <div className="print:hidden">
+            <SettingsPanel
+              onClose={() => setShowSettings(false)}
+              onApiKeyChange={handleApiKeyChange}
+            />
+            <UnitPreferencesPanel />
+            <AlertRulesPanel rules={alertRules} onChange={setAlertRules} />
+          </div>
+        )}
+
         {/* City Search */}
         <CitySearch
           onCitySelect={handleCitySelect}
           selectedCity={selectedCity}
+          provider={provider}
+          isFavorite={(city) => isFavorite(favorites, city)}
+          onToggleFavorite={handleToggleFavorite}
         />
 
+        {/* Favorites */}
+        <FavoritesDashboard
+          favorites={favorites}
+          provider={provider}
+          isOnline={isOnline}
+          alertRules={alertRules}
+          onSelect={handleCitySelect}
+          onRename={(id, label) => setFavorites(prev => renameFavorite(prev, id, label))}
+          onRemove={(id) => setFavorites(prev => removeFavorite(prev, id))}
+          onReorder={(from, to) => setFavorites(prev => moveFavorite(prev, from, to))}
+        />
+
+        {/* Comparison */}
+        {isComparing && (
+          <ComparisonView
+            cities={comparisonCities}
+            provider={provider}
+            onRemove={(city) => setComparisonCities(prev => removeComparisonCity(prev, city))}
+            onClear={() => setComparisonCities([])}
+          />
+        )}
+
         {/* Weather Display */}
-        {selectedCity && (
-          <div className="bg-white/10 backdrop-blur-md rounded-2xl p-6 md:p-8">
-            <div className="flex items-center justify-between mb-6">
+        {selectedCity && !isComparing && (
+          <div className="bg-white/10 backdrop-blur-md rounded-2xl p-6 md:p-8 print:bg-transparent print:backdrop-blur-none print:p-0">
+            <div className="flex items-center justify-between mb-6 print:hidden">
               <div className="flex items-center gap-3">
                 <MapPin className="w-6 h-6 text-white" />
                 <h2 className="text-2xl md:text-3xl font-bold text-white">
-                  {selectedCity.name}
+                  {getLocalizedCityName(selectedCity, language)}
                   {selectedCity.state && `, ${selectedCity.state}`}
-                  , {getCountryName(selectedCity.country)}
+                  {selectedCity.country && `, ${getCountryName(selectedCity.country, format.locale)}`}
                 </h2>
               </div>
               <div className="flex items-center gap-4">
                 {lastUpdated && (
                   <div className="text-white/70 text-sm">
-                    Updated: {lastUpdated.toLocaleTimeString()}
+                    {t('forecast.updated', { time: formatTime(Math.floor(lastUpdated.getTime() / 1000)) })}
+                    {' '}({format.age(lastUpdated.getTime(), now)})
                   </div>
                 )}
                 <button
@@ -113,47 +518,186 @@ function App() {
                   className="flex items-center gap-2 bg-white/20 hover:bg-white/30 text-white px-4 py-2 rounded-lg transition-colors disabled:opacity-50"
                 >
                   <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
-                  Refresh
+                  {t('forecast.refresh')}
                 </button>
+                <button
+                  onClick={handleCopyLink}
+                  className="flex items-center gap-2 bg-white/20 hover:bg-white/30 text-white px-4 py-2 rounded-lg transition-colors"
+                >
+                  {linkCopied ? <Check className="w-4 h-4" /> : <Link className="w-4 h-4" />}
+                  {linkCopied ? t('share.copied') : t('share.copy')}
+                </button>
+                {weatherData.length > 0 && !loading && !error && (
+                  <ExportMenu
+                    data={{
+                      city: selectedCity,
+                      source: dataSource ?? provider.name,
+                      utcOffset: locationInfo?.timezone ?? 0,
+                      days: weatherData,
+                      list: forecastList
+                    }}
+                  />
+                )}
               </div>
             </div>
 
+            {/* Offline */}
+            {(isLastKnown || !isOnline) && lastUpdated && !loading && !error && (
+              <div className="flex items-center gap-2 -mt-3 mb-6 bg-amber-100 border border-amber-300 text-amber-900 rounded-xl px-4 py-3 text-sm font-medium print:hidden">
+                <WifiOff className="w-5 h-5" />
+                {t('offline.banner', { time: format.dateTime(lastUpdated.getTime()) })}
+              </div>
+            )}
+
+            {/* Location Time */}
+            {locationInfo && !loading && !error && (
+              <div className="flex flex-wrap items-center gap-4 -mt-3 mb-6 text-white/80 text-sm print:hidden">
+                <span className="flex items-center gap-1">
+                  <Clock className="w-4 h-4" />
+                  {t('forecast.localTime', {
+                    time: format.time(Math.floor(Date.now() / 1000), locationInfo.timezone),
+                    offset: formatUtcOffset(locationInfo.timezone)
+                  })}
+                </span>
+                {locationInfo.sunrise > 0 && (
+                  <>
+                    <span className="flex items-center gap-1">
+                      <Sunrise className="w-4 h-4" />
+                      {formatTime(locationInfo.sunrise)}
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <Sunset className="w-4 h-4" />
+                      {formatTime(locationInfo.sunset)}
+                    </span>
+                  </>
+                )}
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={showViewerTime}
+                    onChange={(e) => setShowViewerTime(e.target.checked)}
+                    className="rounded"
+                  />
+                  {t('forecast.showViewerTime')}
+                </label>
+              </div>
+            )}
+
             {loading && <LoadingSpinner />}
             
             {error && (
-              <ErrorMessage message={error} onRetry={handleRetry} />
+              <ErrorMessage
+                error={error}
+                onRetry={handleRetry}
+                onUseDemo={isDemoMode ? undefined : handleUseDemo}
+              />
             )}
 
             {!loading && !error && weatherData.length > 0 && (
               <>
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                  {weatherData.map((weather, index) => (
-                    <WeatherCard
-                      key={weather.date}
-                      weather={weather}
-                      isToday={index === 0}
-                    />
+                {/* View Switch */}
+                <div className="flex justify-end gap-2 mb-4 print:hidden">
+                  {([
+                    { id: 'daily', label: t('view.daily'), Icon: CalendarDays },
+                    { id: 'hourly', label: t('view.hourly'), Icon: List },
+                    { id: 'astro', label: t('view.astro'), Icon: Telescope },
+                    { id: 'report', label: t('view.report'), Icon: FileText }
+                  ] as const).map(({ id, label, Icon }) => (
+                    <button
+                      key={id}
+                      onClick={() => setView(id)}
+                      aria-pressed={view === id}
+                      className={`flex items-center gap-2 text-sm px-3 py-1.5 rounded-lg transition-colors ${
+                        view === id ? 'bg-white text-blue-700 font-semibold' : 'bg-white/20 hover:bg-white/30 text-white'
+                      }`}
+                    >
+                      <Icon className="w-4 h-4" />
+                      {label}
+                    </button>
                   ))}
                 </div>
-                
-                {/* Data Source Info */}
-                <div className="mt-6 text-center">
-                  <p className="text-white/70 text-sm">
-                    Weather data updates every 3 hours • Powered by OpenWeatherMap API
-                  </p>
-                </div>
+
+                {view === 'daily' && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                    {weatherData.map((weather, index) => (
+                      <WeatherCard
+                        key={weather.date}
+                        weather={weather}
+                        isToday={index === 0}
+                        isSelected={weather.date === selectedDate}
+                        alerts={getAlertsForDay(alertMatches, weather.date)}
+                        officialAlerts={getOfficialAlertsForDay(officialAlerts, weather.date, locationInfo?.timezone ?? 0)}
+                        astronomy={dayAstronomy[index]}
+                        utcOffset={locationInfo?.timezone ?? 0}
+                        onClick={() => handleDaySelect(weather.date)}
+                      />
+                    ))}
+                  </div>
+                )}
+
+                {/* Today's Sun and Moon */}
+                {view === 'daily' && dayAstronomy.length > 0 && (
+                  <SunMoonPanel astronomy={dayAstronomy[0]} utcOffset={locationInfo?.timezone ?? 0} />
+                )}
+
+                {view === 'report' && (
+                  <ForecastReport
+                    city={selectedCity}
+                    days={weatherData}
+                    astronomy={dayAstronomy}
+                    slots={hourlyData}
+                    utcOffset={locationInfo?.timezone ?? 0}
+                    source={dataSource ?? provider.name}
+                    fetchedAt={lastUpdated?.getTime() ?? null}
+                  />
+                )}
+
+                {view === 'astro' && (
+                  <AstronomyView
+                    city={selectedCity}
+                    utcOffset={locationInfo?.timezone ?? estimateUtcOffset(selectedCity.lon)}
+                  />
+                )}
+
+                {(view === 'daily' || view === 'hourly') && (
+                  <>
+                    {/* Charts */}
+                    <ForecastCharts
+                      slots={hourlyData}
+                      utcOffset={locationInfo?.timezone ?? 0}
+                      selectedDate={selectedDate}
+                      onDaySelect={handleDaySelect}
+                    />
+
+                    {/* Hourly Timeline */}
+                    <HourlyTimeline
+                      slots={visibleSlots}
+                      utcOffset={locationInfo?.timezone ?? 0}
+                      selectedDayLabel={selectedDay && format.date(selectedDay.date, { weekday: 'long' })}
+                      showViewerTime={showViewerTime && !!locationInfo && differsFromViewer(locationInfo.timezone)}
+                      onShowAll={selectedDate ? () => setSelectedDate(null) : undefined}
+                    />
+
+                    {/* Data Source Info */}
+                    <div className="mt-6 text-center">
+                      <p className="text-white/70 text-sm">
+                        {t('forecast.dataSource', { source: dataSource ?? provider.name })}
+                      </p>
+                    </div>
+                  </>
+                )}
               </>
             )}
 
             {!loading && !error && weatherData.length === 0 && selectedCity && (
               <div className="text-center py-12">
                 <AlertCircle className="w-12 h-12 text-white/60 mx-auto mb-4" />
-                <p className="text-white/80 text-lg">No weather data available for this location.</p>
+                <p className="text-white/80 text-lg">{t('forecast.noData')}</p>
                 <button
                   onClick={handleRetry}
                   className="mt-4 bg-white/20 hover:bg-white/30 text-white px-6 py-2 rounded-lg transition-colors"
                 >
-                  Try Again
+                  {t('common.tryAgain')}
                 </button>
               </div>
             )}
@@ -161,59 +705,59 @@ function App() {
         )}
 
         {/* Global Features */}
-        {!selectedCity && (
+        {!selectedCity && !isComparing && (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mt-12">
             <div className="bg-white/10 backdrop-blur-md rounded-xl p-6 text-center">
               <div className="text-4xl mb-4">🌍</div>
-              <h3 className="text-xl font-bold text-white mb-2">Africa</h3>
+              <h3 className="text-xl font-bold text-white mb-2">{t('region.africa')}</h3>
               <p className="text-white/80 text-sm">Lagos, Cairo, Nairobi, Cape Town, Casablanca, Johannesburg</p>
             </div>
             <div className="bg-white/10 backdrop-blur-md rounded-xl p-6 text-center">
               <div className="text-4xl mb-4">🌏</div>
-              <h3 className="text-xl font-bold text-white mb-2">Asia</h3>
+              <h3 className="text-xl font-bold text-white mb-2">{t('region.asia')}</h3>
               <p className="text-white/80 text-sm">Tokyo, Mumbai, Beijing, Bangkok, Jakarta, Singapore</p>
             </div>
             <div className="bg-white/10 backdrop-blur-md rounded-xl p-6 text-center">
               <div className="text-4xl mb-4">🌎</div>
-              <h3 className="text-xl font-bold text-white mb-2">Americas</h3>
+              <h3 className="text-xl font-bold text-white mb-2">{t('region.americas')}</h3>
               <p className="text-white/80 text-sm">New York, São Paulo, Toronto, Mexico City, Buenos Aires</p>
             </div>
             <div className="bg-white/10 backdrop-blur-md rounded-xl p-6 text-center">
               <div className="text-4xl mb-4">🌏</div>
-              <h3 className="text-xl font-bold text-white mb-2">Oceania</h3>
+              <h3 className="text-xl font-bold text-white mb-2">{t('region.oceania')}</h3>
               <p className="text-white/80 text-sm">Sydney, Melbourne, Auckland, Fiji, Samoa, Vanuatu</p>
             </div>
           </div>
         )}
 
         {/* Additional Features */}
-        {!selectedCity && (
+        {!selectedCity && !isComparing && (
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mt-8">
             <div className="bg-white/10 backdrop-blur-md rounded-xl p-6 text-center">
               <div className="text-4xl mb-4">🔄</div>
-              <h3 className="text-xl font-bold text-white mb-2">Real-time Updates</h3>
-              <p className="text-white/80">Weather data updates every 3 hours for maximum accuracy across all time zones.</p>
+              <h3 className="text-xl font-bold text-white mb-2">{t('features.realtime.title')}</h3>
+              <p className="text-white/80">{t('features.realtime.text')}</p>
             </div>
             <div className="bg-white/10 backdrop-blur-md rounded-xl p-6 text-center">
               <div className="text-4xl mb-4">🔍</div>
-              <h3 className="text-xl font-bold text-white mb-2">Smart Search</h3>
-              <p className="text-white/80">Intelligent autocomplete with global city database covering thousands of locations.</p>
+              <h3 className="text-xl font-bold text-white mb-2">{t('features.search.title')}</h3>
+              <p className="text-white/80">{t('features.search.text')}</p>
             </div>
             <div className="bg-white/10 backdrop-blur-md rounded-xl p-6 text-center">
               <div className="text-4xl mb-4">📊</div>
-              <h3 className="text-xl font-bold text-white mb-2">Detailed Forecasts</h3>
-              <p className="text-white/80">7-day forecasts with temperature, humidity, wind, pressure, and precipitation data.</p>
+              <h3 className="text-xl font-bold text-white mb-2">{t('features.detailed.title')}</h3>
+              <p className="text-white/80">{t('features.detailed.text')}</p>
             </div>
           </div>
         )}
 
         {/* Footer */}
-        <div className="text-center mt-12">
+        <div className="text-center mt-12 print:hidden">
           <p className="text-white/70 text-sm">
-            Global Weather Forecast • Powered by OpenWeatherMap API • Covering 200+ Countries
+            {t('footer.poweredBy', { source: provider.name })}
           </p>
           <p className="text-white/50 text-xs mt-2">
-            © 2024 Global Weather App • Complete worldwide coverage including Africa, Asia, Europe, Americas & Oceania
+            {t('footer.copyright')}
           </p>
         </div>
       </div>
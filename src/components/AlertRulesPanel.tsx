@@ -0,0 +1,215 @@
+import React, { useState } from 'react';
+import { BellRing, Plus, X } from 'lucide-react';
+import { AlertMetric, AlertRule } from '../types/alerts';
+import { UnitPreferences } from '../types/preferences';
+import {
+  ALERT_METRICS,
+  DEFAULT_ALERT_RULES,
+  DEFAULT_THRESHOLDS,
+  createAlertRule,
+  requestNotificationPermission
+} from '../utils/alerts';
+import {
+  unitLabels,
+  convertTemperature,
+  convertWindSpeed,
+  convertPrecipitation,
+  toCelsius,
+  toKmh,
+  toMillimetres
+} from '../utils/units';
+import { usePreferences } from '../contexts/PreferencesContext';
+
+interface AlertRulesPanelProps {
+  rules: AlertRule[];
+  onChange: (rules: AlertRule[]) => void;
+}
+
+// Thresholds are stored in metric units but edited in the user's own
+const toDisplayValue = (metric: AlertMetric, value: number, units: UnitPreferences): number => {
+  switch (metric) {
+    case 'windSpeed':
+    case 'windGust':
+      return convertWindSpeed(value, units.windSpeed);
+    case 'tempMin':
+    case 'tempMax':
+      return convertTemperature(value, units.temperature);
+    case 'precipitation':
+      return convertPrecipitation(value, units.precipitation);
+    case 'pop':
+      return value;
+  }
+};
+
+const fromDisplayValue = (metric: AlertMetric, value: number, units: UnitPreferences): number => {
+  switch (metric) {
+    case 'windSpeed':
+    case 'windGust':
+      return toKmh(value, units.windSpeed);
+    case 'tempMin':
+    case 'tempMax':
+      return toCelsius(value, units.temperature);
+    case 'precipitation':
+      return toMillimetres(value, units.precipitation);
+    case 'pop':
+      return value;
+  }
+};
+
+const getUnitLabel = (metric: AlertMetric, units: UnitPreferences): string => {
+  switch (metric) {
+    case 'windSpeed':
+    case 'windGust':
+      return unitLabels.windSpeed[units.windSpeed];
+    case 'tempMin':
+    case 'tempMax':
+      return unitLabels.temperature[units.temperature];
+    case 'precipitation':
+      return `${unitLabels.precipitation[units.precipitation]}/24h`;
+    case 'pop':
+      return '%';
+  }
+};
+
+const getNotificationPermission = (): NotificationPermission | 'unsupported' =>
+  'Notification' in window ? Notification.permission : 'unsupported';
+
+const AlertRulesPanel: React.FC<AlertRulesPanelProps> = ({ rules, onChange }) => {
+  const { preferences, t } = usePreferences();
+  const [permission, setPermission] = useState(getNotificationPermission);
+  // Threshold text being typed, by rule id, so an empty field or a lone "-" is not replaced
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const { units } = preferences;
+
+  const updateRule = (id: string, changes: Partial<AlertRule>) => {
+    onChange(rules.map(rule => rule.id === id ? { ...rule, ...changes } : rule));
+  };
+
+  const clearDraft = (id: string) => {
+    setDrafts(current => {
+      const next = { ...current };
+      delete next[id];
+      return next;
+    });
+  };
+
+  // A threshold in another unit or scale means nothing for the new metric
+  const handleMetricChange = (rule: AlertRule, metric: AlertMetric) => {
+    clearDraft(rule.id);
+    updateRule(rule.id, { metric, threshold: DEFAULT_THRESHOLDS[metric] });
+  };
+
+  // Only complete numbers are applied; the draft shows whatever has been typed so far
+  const handleThresholdChange = (rule: AlertRule, value: string) => {
+    setDrafts(current => ({ ...current, [rule.id]: value }));
+    const number = parseFloat(value);
+    if (Number.isFinite(number)) {
+      updateRule(rule.id, { threshold: fromDisplayValue(rule.metric, number, units) });
+    }
+  };
+
+  const getThresholdText = (rule: AlertRule): string =>
+    drafts[rule.id] ?? String(Math.round(toDisplayValue(rule.metric, rule.threshold, units) * 10) / 10);
+
+  const handleEnableNotifications = async () => {
+    setPermission(await requestNotificationPermission());
+  };
+
+  const inputClassName = 'px-2 py-1.5 rounded-lg border border-gray-200 focus:border-blue-500 focus:ring-2 focus:ring-blue-200 text-gray-800 text-sm';
+
+  return (
+    <div className="w-full max-w-3xl mx-auto mb-8 bg-white/90 backdrop-blur-sm rounded-xl p-6 shadow-lg border border-gray-200">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2">
+          <BellRing className="w-5 h-5 text-blue-500" />
+          <h2 className="text-lg font-semibold text-gray-800">{t('alerts.title')}</h2>
+        </div>
+        <button
+          onClick={() => onChange(DEFAULT_ALERT_RULES)}
+          className="text-sm bg-gray-100 text-gray-700 px-3 py-1 rounded-lg hover:bg-gray-200 transition-colors"
+        >
+          {t('alerts.reset')}
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">{t('alerts.hint')}</p>
+
+      <div className="space-y-2 mb-4">
+        {rules.map(rule => (
+          <div key={rule.id} className="flex flex-wrap items-center gap-2">
+            <input
+              type="checkbox"
+              checked={rule.enabled}
+              onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+              aria-label={t('alerts.enabled')}
+              className="rounded"
+            />
+            <select
+              value={rule.metric}
+              onChange={(e) => handleMetricChange(rule, e.target.value as AlertMetric)}
+              className={inputClassName}
+            >
+              {ALERT_METRICS.map(metric => (
+                <option key={metric} value={metric}>{t(`alerts.metric.${metric}`)}</option>
+              ))}
+            </select>
+            <select
+              value={rule.comparison}
+              onChange={(e) => updateRule(rule.id, { comparison: e.target.value as AlertRule['comparison'] })}
+              className={inputClassName}
+            >
+              <option value="above">{t('alerts.comparison.above')}</option>
+              <option value="below">{t('alerts.comparison.below')}</option>
+            </select>
+            <input
+              type="number"
+              value={getThresholdText(rule)}
+              onChange={(e) => handleThresholdChange(rule, e.target.value)}
+              onBlur={() => clearDraft(rule.id)}
+              aria-label={t('alerts.threshold')}
+              className={`w-24 ${inputClassName}`}
+            />
+            <span className="text-sm text-gray-600">{getUnitLabel(rule.metric, units)}</span>
+            <button
+              onClick={() => onChange(rules.filter(other => other.id !== rule.id))}
+              className="text-gray-400 hover:text-red-500 transition-colors"
+              aria-label={t('alerts.remove')}
+              title={t('alerts.remove')}
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <button
+          onClick={() => onChange([...rules, createAlertRule()])}
+          className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800 font-medium"
+        >
+          <Plus className="w-4 h-4" />
+          {t('alerts.add')}
+        </button>
+
+        {permission === 'default' && (
+          <button
+            onClick={handleEnableNotifications}
+            className="text-sm bg-blue-500 text-white px-3 py-1.5 rounded-lg hover:bg-blue-600 transition-colors"
+          >
+            {t('alerts.notifications.enable')}
+          </button>
+        )}
+        {permission === 'granted' && (
+          <span className="text-sm text-green-700">{t('alerts.notifications.enabled')}</span>
+        )}
+        {permission === 'denied' && (
+          <span className="text-sm text-gray-500">{t('alerts.notifications.blocked')}</span>
+        )}
+        {permission === 'unsupported' && (
+          <span className="text-sm text-gray-500">{t('alerts.notifications.unsupported')}</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AlertRulesPanel;
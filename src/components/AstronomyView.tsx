@@ -0,0 +1,168 @@
+import React, { useState, useEffect } from 'react';
+import { Telescope, Sparkles, Moon } from 'lucide-react';
+import { AstroForecast, AstroSlot, ObservingWindow, SkyRating } from '../types/astronomy';
+import { GeocodingResult } from '../types/weather';
+import { SEEING_ARCSEC, TRANSPARENCY_MAG, fetchAstroForecast } from '../utils/astroForecast';
+import { WeatherApiError, isAbortError, toWeatherApiError } from '../utils/errors';
+import { getLocationDateKey } from '../utils/time';
+import { usePreferences } from '../contexts/PreferencesContext';
+import LoadingSpinner from './LoadingSpinner';
+
+interface AstronomyViewProps {
+  city: GeocodingResult;
+  // Location UTC offset in seconds
+  utcOffset: number;
+}
+
+const ratingClassNames: Record<SkyRating, string> = {
+  good: 'bg-green-100 text-green-800',
+  fair: 'bg-amber-100 text-amber-800',
+  poor: 'bg-red-100 text-red-800'
+};
+
+// Colour a 1 (best) to 8 (worst) class the way the ratings are coloured
+const getClassRating = (value: number): SkyRating => {
+  if (value <= 3) return 'good';
+  if (value <= 5) return 'fair';
+  return 'poor';
+};
+
+const isInWindow = (slot: AstroSlot, window: ObservingWindow | null) =>
+  !!window && slot.dt >= window.start && slot.dt < window.end;
+
+const AstronomyView: React.FC<AstronomyViewProps> = ({ city, utcOffset }) => {
+  const { format, t } = usePreferences();
+  const [forecast, setForecast] = useState<AstroForecast | null>(null);
+  const [error, setError] = useState<WeatherApiError | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setForecast(null);
+    setError(null);
+
+    fetchAstroForecast(city.lat, city.lon, utcOffset, { signal: controller.signal })
+      .then(result => {
+        if (!controller.signal.aborted) setForecast(result);
+      })
+      .catch(err => {
+        if (isAbortError(err) || controller.signal.aborted) return;
+        console.error('Astronomy forecast error:', err);
+        setError(toWeatherApiError(err, '7Timer!'));
+      });
+
+    return () => controller.abort();
+  }, [city.lat, city.lon, utcOffset]);
+
+  const formatWindow = (window: ObservingWindow) => {
+    const startDate = format.date(getLocationDateKey(window.start, utcOffset), { weekday: 'short' });
+    return `${startDate} ${format.time(window.start, utcOffset)} – ${format.time(window.end, utcOffset)}`;
+  };
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm rounded-xl p-4 shadow-lg border border-gray-200">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Telescope className="w-5 h-5 text-indigo-500" />
+          <h3 className="text-lg font-semibold text-gray-800">{t('astro.title')}</h3>
+        </div>
+        <span className="text-xs text-gray-500">{t('astro.source')}</span>
+      </div>
+
+      {!forecast && !error && <LoadingSpinner />}
+
+      {error && (
+        <p className="text-sm text-red-700 py-4">
+          {t(`error.${error.kind}.title`)}: {t('astro.unavailable')}
+        </p>
+      )}
+
+      {forecast && forecast.nights.length === 0 && (
+        <p className="text-sm text-gray-600 py-4">{t('astro.noNights')}</p>
+      )}
+
+      {forecast && forecast.nights.length > 0 && (
+        <>
+          {/* Best Window */}
+          <div className="flex items-center gap-2 mb-4 bg-indigo-50 border border-indigo-200 text-indigo-900 rounded-lg px-3 py-2 text-sm">
+            <Sparkles className="w-4 h-4 flex-shrink-0" />
+            {forecast.bestWindow
+              ? t('astro.bestWindow', {
+                  window: formatWindow(forecast.bestWindow),
+                  rating: t(`astro.rating.${forecast.bestWindow.rating}`)
+                })
+              : t('astro.noWindow')}
+          </div>
+
+          <div className="space-y-4">
+            {forecast.nights.map(night => (
+              <div key={night.date}>
+                <div className="flex items-center justify-between mb-2">
+                  <h4 className="flex items-center gap-2 font-semibold text-gray-700">
+                    <Moon className="w-4 h-4 text-indigo-400" />
+                    {t('astro.night', { date: format.date(night.date, { weekday: 'long', day: 'numeric', month: 'short' }) })}
+                  </h4>
+                  <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${ratingClassNames[night.rating]}`}>
+                    {t(`astro.rating.${night.rating}`)}
+                  </span>
+                </div>
+
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm text-gray-700">
+                    <thead>
+                      <tr className="text-xs text-gray-500 text-left">
+                        <th className="px-2 py-1 font-medium">{t('astro.time')}</th>
+                        <th className="px-2 py-1 font-medium">{t('astro.cloudCover')}</th>
+                        <th className="px-2 py-1 font-medium">{t('astro.seeing')}</th>
+                        <th className="px-2 py-1 font-medium">{t('astro.transparency')}</th>
+                        <th className="px-2 py-1 font-medium">{t('astro.liftedIndex')}</th>
+                        <th className="px-2 py-1 font-medium">{t('astro.sky')}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {night.slots.map(slot => (
+                        <tr
+                          key={slot.dt}
+                          className={`border-t border-gray-100 ${isInWindow(slot, forecast.bestWindow) ? 'bg-indigo-50' : ''}`}
+                        >
+                          <td className="px-2 py-1 font-medium whitespace-nowrap">
+                            {format.time(slot.dt, utcOffset)}
+                            {isInWindow(slot, forecast.bestWindow) && (
+                              <Sparkles className="inline w-3 h-3 ml-1 text-indigo-500" aria-label={t('astro.inBestWindow')} />
+                            )}
+                          </td>
+                          <td className="px-2 py-1">
+                            {slot.precipitating ? t('astro.precipitation') : `${slot.cloudCover}%`}
+                          </td>
+                          <td className="px-2 py-1">
+                            <span className={`px-1.5 rounded ${ratingClassNames[getClassRating(slot.seeing)]}`}>
+                              {SEEING_ARCSEC[slot.seeing - 1]}
+                            </span>
+                          </td>
+                          <td className="px-2 py-1">
+                            <span className={`px-1.5 rounded ${ratingClassNames[getClassRating(slot.transparency)]}`}>
+                              {TRANSPARENCY_MAG[slot.transparency - 1]}
+                            </span>
+                          </td>
+                          <td className="px-2 py-1">{format.number(slot.liftedIndex)}</td>
+                          <td className="px-2 py-1">
+                            <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${ratingClassNames[slot.rating]}`}>
+                              {t(`astro.rating.${slot.rating}`)}
+                            </span>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <p className="mt-4 text-xs text-gray-500">{t('astro.legend')}</p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AstronomyView;
@@ -1,20 +1,31 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Search, MapPin, Globe, X, Loader2 } from 'lucide-react';
-import { GeocodingResult } from '../types/weather';
-import { searchCities, searchCitiesAdvanced } from '../utils/weatherApi';
+import { Search, MapPin, Globe, X, Loader2, AlertCircle, Star, LocateFixed } from 'lucide-react';
+import { GeocodingResult, WeatherProvider } from '../types/weather';
+import { WeatherApiError, isAbortError, toWeatherApiError } from '../utils/errors';
+import { getCountryName as getLocalizedCountryName, getRegion, getRegionEmoji } from '../utils/countries';
+import { GeolocationError, getCurrentPosition, parseCoordinates, resolveLocation } from '../utils/geolocation';
+import { getLocalizedCityName } from '../i18n';
+import { usePreferences } from '../contexts/PreferencesContext';
 
 interface CitySearchProps {
   onCitySelect: (city: GeocodingResult) => void;
   selectedCity: GeocodingResult | null;
+  provider: WeatherProvider;
+  isFavorite: (city: GeocodingResult) => boolean;
+  onToggleFavorite: (city: GeocodingResult) => void;
 }
 
-const CitySearch: React.FC<CitySearchProps> = ({ onCitySelect, selectedCity }) => {
+const CitySearch: React.FC<CitySearchProps> = ({ onCitySelect, selectedCity, provider, isFavorite, onToggleFavorite }) => {
+  const { format, language, t } = usePreferences();
   const [query, setQuery] = useState('');
   const [suggestions, setSuggestions] = useState<GeocodingResult[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [searchError, setSearchError] = useState<WeatherApiError | null>(null);
   const [showSuggestions, setShowSuggestions] = useState(false);
   const [highlightedIndex, setHighlightedIndex] = useState(-1);
   const [searchMode, setSearchMode] = useState<'basic' | 'advanced'>('basic');
+  const [isLocating, setIsLocating] = useState(false);
+  const [locationError, setLocationError] = useState<GeolocationError | null>(null);
   const searchRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -30,34 +41,59 @@ const CitySearch: React.FC<CitySearchProps> = ({ onCitySelect, selectedCity }) =
   }, []);
 
   useEffect(() => {
+    // Each keystroke supersedes the previous search: its request is aborted and
+    // any result that still arrives is dropped, so suggestions never go backwards
+    const controller = new AbortController();
+    const { signal } = controller;
+
     const searchForCities = async () => {
       if (query.length < 2) {
         setSuggestions([]);
         setShowSuggestions(false);
+        setIsLoading(false);
         return;
       }
 
       setIsLoading(true);
+      setSearchError(null);
       try {
+        // Typed coordinates are offered as a single, pre-selected place
+        const coordinates = parseCoordinates(query);
+        if (coordinates) {
+          const place = await resolveLocation(coordinates, provider, { signal });
+          if (signal.aborted) return;
+          setSuggestions([place]);
+          setShowSuggestions(true);
+          setHighlightedIndex(0);
+          return;
+        }
+
         // Use advanced search for better global coverage
         const results = searchMode === 'advanced' 
-          ? await searchCitiesAdvanced(query, 25)
-          : await searchCities(query);
-        
+          ? await provider.geocode(query, 25, { signal })
+          : await provider.geocode(query, undefined, { signal });
+        if (signal.aborted) return;
+
         setSuggestions(results);
         setShowSuggestions(true);
         setHighlightedIndex(-1);
       } catch (error) {
+        if (signal.aborted || isAbortError(error)) return;
         console.error('Search error:', error);
         setSuggestions([]);
+        setSearchError(toWeatherApiError(error, provider.name));
+        setShowSuggestions(true);
       } finally {
-        setIsLoading(false);
+        if (!signal.aborted) setIsLoading(false);
       }
     };
 
     const debounceTimer = setTimeout(searchForCities, 300);
-    return () => clearTimeout(debounceTimer);
-  }, [query, searchMode]);
+    return () => {
+      clearTimeout(debounceTimer);
+      controller.abort();
+    };
+  }, [query, searchMode, provider]);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setQuery(e.target.value);
@@ -76,6 +112,23 @@ const CitySearch: React.FC<CitySearchProps> = ({ onCitySelect, selectedCity }) =
     setHighlightedIndex(-1);
   };
 
+  const handleUseLocation = async () => {
+    setIsLocating(true);
+    setLocationError(null);
+    try {
+      const coordinates = await getCurrentPosition();
+      handleCitySelect(await resolveLocation(coordinates, provider));
+    } catch (error) {
+      if (error instanceof GeolocationError) {
+        setLocationError(error);
+      } else {
+        console.error('Location error:', error);
+      }
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (!showSuggestions || suggestions.length === 0) return;
 
@@ -121,89 +174,37 @@ const CitySearch: React.FC<CitySearchProps> = ({ onCitySelect, selectedCity }) =
     }
   };
 
-  const getCountryName = (countryCode: string) => {
-    const countryNames: Record<string, string> = {
-      'US': 'United States', 'CA': 'Canada', 'GB': 'United Kingdom', 'AU': 'Australia',
-      'DE': 'Germany', 'FR': 'France', 'IT': 'Italy', 'ES': 'Spain', 'NL': 'Netherlands',
-      'BR': 'Brazil', 'AR': 'Argentina', 'MX': 'Mexico', 'IN': 'India', 'CN': 'China',
-      'JP': 'Japan', 'KR': 'South Korea', 'RU': 'Russia', 'ZA': 'South Africa',
-      'NG': 'Nigeria', 'EG': 'Egypt', 'KE': 'Kenya', 'MA': 'Morocco', 'GH': 'Ghana',
-      'ET': 'Ethiopia', 'TN': 'Tunisia', 'DZ': 'Algeria', 'TH': 'Thailand', 'ID': 'Indonesia',
-      'PH': 'Philippines', 'SG': 'Singapore', 'MY': 'Malaysia', 'VN': 'Vietnam',
-      'BD': 'Bangladesh', 'PK': 'Pakistan', 'IR': 'Iran', 'SA': 'Saudi Arabia',
-      'AE': 'United Arab Emirates', 'TR': 'Turkey', 'UA': 'Ukraine', 'PL': 'Poland',
-      'CZ': 'Czech Republic', 'AT': 'Austria', 'CH': 'Switzerland', 'SE': 'Sweden',
-      'NO': 'Norway', 'DK': 'Denmark', 'FI': 'Finland', 'BE': 'Belgium', 'PT': 'Portugal',
-      'GR': 'Greece', 'IE': 'Ireland', 'HU': 'Hungary', 'CL': 'Chile', 'PE': 'Peru',
-      'CO': 'Colombia', 'VE': 'Venezuela', 'EC': 'Ecuador', 'BO': 'Bolivia',
-      'UY': 'Uruguay', 'PY': 'Paraguay', 'GY': 'Guyana', 'SR': 'Suriname',
-      'NZ': 'New Zealand', 'FJ': 'Fiji', 'WS': 'Samoa', 'TO': 'Tonga', 'VU': 'Vanuatu'
-    };
-    return countryNames[countryCode] || countryCode;
-  };
+  const getCountryName = (countryCode: string) => getLocalizedCountryName(countryCode, format.locale);
 
   const formatCityName = (city: GeocodingResult) => {
-    const parts = [city.name];
+    const parts = [getLocalizedCityName(city, language)];
     if (city.state) parts.push(city.state);
     parts.push(getCountryName(city.country));
     return parts.join(', ');
   };
 
+  const renderFavoriteButton = (city: GeocodingResult, className: string) => {
+    const favorite = isFavorite(city);
+    return (
+      <button
+        onClick={() => onToggleFavorite(city)}
+        className={`${className} transition-colors ${favorite ? 'text-yellow-500' : 'text-gray-400 hover:text-yellow-500'}`}
+        aria-label={t(favorite ? 'favorites.remove' : 'favorites.add')}
+        aria-pressed={favorite}
+        title={t(favorite ? 'favorites.remove' : 'favorites.add')}
+      >
+        <Star className={`w-5 h-5 ${favorite ? 'fill-yellow-400' : ''}`} />
+      </button>
+    );
+  };
+
   const getContinentInfo = (countryCode: string) => {
-    const continents: Record<string, { name: string; emoji: string }> = {
-      // Africa
-      'NG': { name: 'Africa', emoji: '🌍' }, 'EG': { name: 'Africa', emoji: '🌍' },
-      'ZA': { name: 'Africa', emoji: '🌍' }, 'KE': { name: 'Africa', emoji: '🌍' },
-      'MA': { name: 'Africa', emoji: '🌍' }, 'GH': { name: 'Africa', emoji: '🌍' },
-      'ET': { name: 'Africa', emoji: '🌍' }, 'TN': { name: 'Africa', emoji: '🌍' },
-      'DZ': { name: 'Africa', emoji: '🌍' },
-      
-      // Asia
-      'CN': { name: 'Asia', emoji: '🌏' }, 'IN': { name: 'Asia', emoji: '🌏' },
-      'JP': { name: 'Asia', emoji: '🌏' }, 'KR': { name: 'Asia', emoji: '🌏' },
-      'TH': { name: 'Asia', emoji: '🌏' }, 'ID': { name: 'Asia', emoji: '🌏' },
-      'PH': { name: 'Asia', emoji: '🌏' }, 'SG': { name: 'Asia', emoji: '🌏' },
-      'MY': { name: 'Asia', emoji: '🌏' }, 'VN': { name: 'Asia', emoji: '🌏' },
-      'BD': { name: 'Asia', emoji: '🌏' }, 'PK': { name: 'Asia', emoji: '🌏' },
-      'IR': { name: 'Asia', emoji: '🌏' }, 'SA': { name: 'Asia', emoji: '🌏' },
-      'AE': { name: 'Asia', emoji: '🌏' }, 'TR': { name: 'Asia', emoji: '🌏' },
-      
-      // Europe
-      'GB': { name: 'Europe', emoji: '🌍' }, 'FR': { name: 'Europe', emoji: '🌍' },
-      'DE': { name: 'Europe', emoji: '🌍' }, 'IT': { name: 'Europe', emoji: '🌍' },
-      'ES': { name: 'Europe', emoji: '🌍' }, 'NL': { name: 'Europe', emoji: '🌍' },
-      'RU': { name: 'Europe', emoji: '🌍' }, 'UA': { name: 'Europe', emoji: '🌍' },
-      'PL': { name: 'Europe', emoji: '🌍' }, 'CZ': { name: 'Europe', emoji: '🌍' },
-      'AT': { name: 'Europe', emoji: '🌍' }, 'CH': { name: 'Europe', emoji: '🌍' },
-      'SE': { name: 'Europe', emoji: '🌍' }, 'NO': { name: 'Europe', emoji: '🌍' },
-      'DK': { name: 'Europe', emoji: '🌍' }, 'FI': { name: 'Europe', emoji: '🌍' },
-      'BE': { name: 'Europe', emoji: '🌍' }, 'PT': { name: 'Europe', emoji: '🌍' },
-      'GR': { name: 'Europe', emoji: '🌍' }, 'IE': { name: 'Europe', emoji: '🌍' },
-      'HU': { name: 'Europe', emoji: '🌍' },
-      
-      // North America
-      'US': { name: 'North America', emoji: '🌎' }, 'CA': { name: 'North America', emoji: '🌎' },
-      'MX': { name: 'North America', emoji: '🌎' },
-      
-      // South America
-      'BR': { name: 'South America', emoji: '🌎' }, 'AR': { name: 'South America', emoji: '🌎' },
-      'CL': { name: 'South America', emoji: '🌎' }, 'PE': { name: 'South America', emoji: '🌎' },
-      'CO': { name: 'South America', emoji: '🌎' }, 'VE': { name: 'South America', emoji: '🌎' },
-      'EC': { name: 'South America', emoji: '🌎' }, 'BO': { name: 'South America', emoji: '🌎' },
-      'UY': { name: 'South America', emoji: '🌎' }, 'PY': { name: 'South America', emoji: '🌎' },
-      'GY': { name: 'South America', emoji: '🌎' }, 'SR': { name: 'South America', emoji: '🌎' },
-      
-      // Oceania
-      'AU': { name: 'Oceania', emoji: '🌏' }, 'NZ': { name: 'Oceania', emoji: '🌏' },
-      'FJ': { name: 'Oceania', emoji: '🌏' }, 'WS': { name: 'Oceania', emoji: '🌏' },
-      'TO': { name: 'Oceania', emoji: '🌏' }, 'VU': { name: 'Oceania', emoji: '🌏' }
-    };
-    
-    return continents[countryCode] || { name: 'Unknown', emoji: '🌍' };
+    const region = getRegion(countryCode);
+    return { name: t(`region.${region}`), emoji: getRegionEmoji(region) };
   };
 
   return (
-    <div className="w-full max-w-3xl mx-auto mb-8" ref={searchRef}>
+    <div className="w-full max-w-3xl mx-auto mb-8 print:hidden" ref={searchRef}>
       {/* Search Input */}
       <div className="relative">
         <div className="relative">
@@ -215,7 +216,7 @@ const CitySearch: React.FC<CitySearchProps> = ({ onCitySelect, selectedCity }) =
             onChange={handleInputChange}
             onKeyDown={handleKeyDown}
             onFocus={() => query.length >= 2 && setShowSuggestions(true)}
-            placeholder="Search for any city worldwide... (e.g., Lagos, Cairo, Tokyo, New York, São Paulo)"
+            placeholder={t('search.placeholder')}
             className="w-full pl-12 pr-12 py-4 rounded-xl border border-gray-200 focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all duration-200 bg-white/90 backdrop-blur-sm shadow-lg text-gray-800 text-lg font-medium placeholder-gray-500"
           />
           {query && (
@@ -239,7 +240,7 @@ const CitySearch: React.FC<CitySearchProps> = ({ onCitySelect, selectedCity }) =
         {query.length > 4 && (
           <div className="absolute top-full left-0 mt-1">
             <span className="text-xs text-blue-600 bg-blue-50 px-2 py-1 rounded">
-              🔍 Advanced Global Search
+              {t('search.advanced')}
             </span>
           </div>
         )}
@@ -250,53 +251,87 @@ const CitySearch: React.FC<CitySearchProps> = ({ onCitySelect, selectedCity }) =
             {suggestions.map((city, index) => {
               const continent = getContinentInfo(city.country);
               return (
-                <button
+                <div
                   key={`${city.name}-${city.country}-${city.state || ''}-${city.lat}-${city.lon}`}
-                  onClick={() => handleCitySelect(city)}
-                  className={`w-full px-4 py-3 text-left hover:bg-blue-50 transition-colors border-b border-gray-100 last:border-b-0 flex items-center gap-3 ${
+                  className={`flex items-center hover:bg-blue-50 transition-colors border-b border-gray-100 last:border-b-0 ${
                     index === highlightedIndex ? 'bg-blue-50' : ''
                   }`}
                 >
-                  <div className="flex items-center gap-2">
-                    <span className="text-2xl">{getCountryFlag(city.country)}</span>
-                    <span className="text-lg">{continent.emoji}</span>
-                  </div>
-                  <div className="flex-1">
-                    <div className="font-semibold text-gray-800 text-lg">{city.name}</div>
-                    <div className="text-sm text-gray-600">
-                      {city.state && `${city.state}, `}{getCountryName(city.country)}
+                  <button
+                    onClick={() => handleCitySelect(city)}
+                    className="flex-1 px-4 py-3 text-left flex items-center gap-3"
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className="text-2xl">{getCountryFlag(city.country)}</span>
+                      <span className="text-lg">{continent.emoji}</span>
                     </div>
-                    <div className="text-xs text-gray-500 flex items-center gap-2">
-                      <span>{continent.name}</span>
-                      <span>•</span>
-                      <span>{city.lat.toFixed(4)}°, {city.lon.toFixed(4)}°</span>
+                    <div className="flex-1">
+                      <div className="font-semibold text-gray-800 text-lg">{getLocalizedCityName(city, language)}</div>
+                      <div className="text-sm text-gray-600">
+                        {city.state && `${city.state}, `}{getCountryName(city.country)}
+                      </div>
+                      <div className="text-xs text-gray-500 flex items-center gap-2">
+                        <span>{continent.name}</span>
+                        <span>•</span>
+                        <span>{city.lat.toFixed(4)}°, {city.lon.toFixed(4)}°</span>
+                      </div>
                     </div>
-                  </div>
-                  <MapPin className="w-4 h-4 text-gray-400" />
-                </button>
+                    <MapPin className="w-4 h-4 text-gray-400" />
+                  </button>
+                  {renderFavoriteButton(city, 'px-4 py-3')}
+                </div>
               );
             })}
           </div>
         )}
 
+        {/* Search Error */}
+        {showSuggestions && searchError && query.length >= 2 && !isLoading && (
+          <div className="absolute top-full left-0 right-0 mt-2 bg-white/95 backdrop-blur-sm rounded-xl shadow-xl border border-red-200 p-6 z-50">
+            <div className="text-center text-red-700">
+              <AlertCircle className="w-8 h-8 mx-auto mb-2 text-red-500" />
+              <p className="font-semibold">{t('search.unavailable')}</p>
+              <p className="text-sm mt-1">{searchError.message}</p>
+            </div>
+          </div>
+        )}
+
         {/* No Results */}
-        {showSuggestions && suggestions.length === 0 && query.length >= 2 && !isLoading && (
+        {showSuggestions && !searchError && suggestions.length === 0 && query.length >= 2 && !isLoading && (
           <div className="absolute top-full left-0 right-0 mt-2 bg-white/95 backdrop-blur-sm rounded-xl shadow-xl border border-gray-200 p-6 z-50">
             <div className="text-center text-gray-500">
               <Globe className="w-8 h-8 mx-auto mb-2 text-gray-400" />
-              <p className="font-semibold">No cities found for "{query}"</p>
-              <p className="text-sm mt-1">Try searching for:</p>
+              <p className="font-semibold">{t('search.noResults', { query })}</p>
+              <p className="text-sm mt-1">{t('search.trySearching')}</p>
               <div className="text-sm mt-2 space-y-1">
-                <p>• Major cities: London, Tokyo, New York, São Paulo</p>
-                <p>• African cities: Lagos, Cairo, Nairobi, Cape Town</p>
-                <p>• Asian cities: Mumbai, Bangkok, Jakarta, Manila</p>
-                <p>• Or any city name in your local language</p>
+                <p>{t('search.hintMajor')}</p>
+                <p>{t('search.hintAfrica')}</p>
+                <p>{t('search.hintAsia')}</p>
+                <p>{t('search.hintLocal')}</p>
               </div>
             </div>
           </div>
         )}
       </div>
 
+      {/* Current Location */}
+      <div className="flex flex-wrap items-center justify-end gap-3 mt-3">
+        {locationError && (
+          <p className="flex-1 flex items-center gap-2 text-sm text-white bg-red-500/80 rounded-lg px-3 py-2">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            {t(`geolocation.${locationError.kind}`)}
+          </p>
+        )}
+        <button
+          onClick={handleUseLocation}
+          disabled={isLocating}
+          className="flex items-center gap-2 bg-white/20 hover:bg-white/30 text-white text-sm px-3 py-2 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {isLocating ? <Loader2 className="w-4 h-4 animate-spin" /> : <LocateFixed className="w-4 h-4" />}
+          {isLocating ? t('search.locating') : t('search.useLocation')}
+        </button>
+      </div>
+
       {/* Selected City Info */}
       {selectedCity && (
         <div className="mt-4 bg-white/80 backdrop-blur-sm rounded-xl p-4 shadow-lg border border-gray-200">
@@ -307,7 +342,7 @@ const CitySearch: React.FC<CitySearchProps> = ({ onCitySelect, selectedCity }) =
             </div>
             <div className="flex-1">
               <h3 className="font-semibold text-gray-800 text-lg">
-                {selectedCity.name}
+                {getLocalizedCityName(selectedCity, language)}
               </h3>
               <p className="text-gray-600">
                 {selectedCity.state && `${selectedCity.state}, `}{getCountryName(selectedCity.country)}
@@ -315,9 +350,10 @@ const CitySearch: React.FC<CitySearchProps> = ({ onCitySelect, selectedCity }) =
               <div className="flex items-center gap-4 text-sm text-gray-500 mt-1">
                 <span>{getContinentInfo(selectedCity.country).name}</span>
                 <span>•</span>
-                <span>Coordinates: {selectedCity.lat.toFixed(4)}°, {selectedCity.lon.toFixed(4)}°</span>
+                <span>{t('search.coordinates', { coordinates: `${selectedCity.lat.toFixed(4)}°, ${selectedCity.lon.toFixed(4)}°` })}</span>
               </div>
             </div>
+            {renderFavoriteButton(selectedCity, 'p-1')}
             <MapPin className="w-5 h-5 text-blue-500" />
           </div>
         </div>
@@ -328,31 +364,31 @@ const CitySearch: React.FC<CitySearchProps> = ({ onCitySelect, selectedCity }) =
         <div className="flex items-start gap-3">
           <Globe className="w-5 h-5 text-blue-500 mt-0.5" />
           <div className="text-sm text-blue-800">
-            <p className="font-semibold mb-2">🌍 Complete Global Coverage</p>
+            <p className="font-semibold mb-2">{t('search.coverageTitle')}</p>
             <div className="grid grid-cols-2 md:grid-cols-5 gap-2 text-xs">
               <div className="flex items-center gap-1">
                 <span>🌍</span>
-                <span>Africa</span>
+                <span>{t('region.africa')}</span>
               </div>
               <div className="flex items-center gap-1">
                 <span>🌏</span>
-                <span>Asia</span>
+                <span>{t('region.asia')}</span>
               </div>
               <div className="flex items-center gap-1">
                 <span>🌍</span>
-                <span>Europe</span>
+                <span>{t('region.europe')}</span>
               </div>
               <div className="flex items-center gap-1">
                 <span>🌎</span>
-                <span>Americas</span>
+                <span>{t('region.americas')}</span>
               </div>
               <div className="flex items-center gap-1">
                 <span>🌏</span>
-                <span>Oceania</span>
+                <span>{t('region.oceania')}</span>
               </div>
             </div>
             <p className="mt-2">
-              Search for cities from all continents. The app uses OpenWeatherMap's comprehensive global database with thousands of cities worldwide.
+              {t('search.coverageText')}
             </p>
           </div>
         </div>
@@ -0,0 +1,192 @@
+import React, { useState, useEffect } from 'react';
+import { Columns3, X, Thermometer, Droplets, Wind } from 'lucide-react';
+import { ComparisonColumn } from '../types/comparison';
+import { GeocodingResult, WeatherProvider } from '../types/weather';
+import {
+  MIN_COMPARISON_CITIES,
+  MAX_COMPARISON_CITIES,
+  fetchComparison,
+  getComparisonDates,
+  getComparisonDay,
+  getDayExtremes
+} from '../utils/comparison';
+import { getWeatherIcon } from '../utils/weatherApi';
+import { isAbortError } from '../utils/errors';
+import { getCountryName } from '../utils/countries';
+import { getLocalizedCityName } from '../i18n';
+import { usePreferences } from '../contexts/PreferencesContext';
+import LoadingSpinner from './LoadingSpinner';
+
+interface ComparisonViewProps {
+  cities: GeocodingResult[];
+  provider: WeatherProvider;
+  onRemove: (city: GeocodingResult) => void;
+  onClear: () => void;
+}
+
+const ComparisonView: React.FC<ComparisonViewProps> = ({ cities, provider, onRemove, onClear }) => {
+  const { format, language, t } = usePreferences();
+  const [columns, setColumns] = useState<ComparisonColumn[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (cities.length < MIN_COMPARISON_CITIES) {
+      setColumns([]);
+      setLoading(false);
+      return;
+    }
+
+    // Adding or removing a city cancels the requests for the previous selection
+    const controller = new AbortController();
+    setLoading(true);
+    fetchComparison(cities, provider, { lang: language, signal: controller.signal })
+      .then(result => {
+        if (!controller.signal.aborted) setColumns(result);
+      })
+      .catch(error => {
+        if (!isAbortError(error)) console.warn('Could not compare cities:', error);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [cities, provider, language]);
+
+  const dates = getComparisonDates(columns);
+
+  return (
+    <div className="bg-white/10 backdrop-blur-md rounded-2xl p-6 md:p-8">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <Columns3 className="w-6 h-6 text-white" />
+          <h2 className="text-2xl md:text-3xl font-bold text-white">{t('compare.title')}</h2>
+        </div>
+        {cities.length > 0 && (
+          <button
+            onClick={onClear}
+            className="text-sm text-white/80 hover:text-white underline hover:no-underline"
+          >
+            {t('compare.clear')}
+          </button>
+        )}
+      </div>
+
+      {/* Selected Cities */}
+      <div className="flex flex-wrap gap-2 mb-4">
+        {cities.map(city => {
+          const name = getLocalizedCityName(city, language);
+          return (
+            <span key={`${city.lat},${city.lon}`} className="flex items-center gap-1 bg-white/90 text-gray-800 text-sm font-medium pl-3 pr-2 py-1 rounded-full">
+              {name}
+              <button
+                onClick={() => onRemove(city)}
+                className="text-gray-400 hover:text-red-500 transition-colors"
+                aria-label={t('compare.remove', { city: name })}
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </span>
+          );
+        })}
+      </div>
+
+      <p className="text-white/80 text-sm mb-6">
+        {cities.length >= MAX_COMPARISON_CITIES
+          ? t('compare.full', { max: MAX_COMPARISON_CITIES })
+          : cities.length < MIN_COMPARISON_CITIES && cities.length > 0
+            ? t('compare.needMore')
+            : t('compare.hint', { min: MIN_COMPARISON_CITIES, max: MAX_COMPARISON_CITIES })}
+      </p>
+
+      {loading && <LoadingSpinner />}
+
+      {!loading && columns.length >= MIN_COMPARISON_CITIES && (
+        <>
+          <div className="overflow-x-auto bg-white/80 backdrop-blur-sm rounded-xl shadow-lg border border-gray-200">
+            <table className="w-full text-sm text-gray-800">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="px-4 py-3 text-left font-semibold text-gray-600">{t('compare.date')}</th>
+                  {columns.map(column => (
+                    <th key={`${column.city.lat},${column.city.lon}`} className="px-4 py-3 text-left font-semibold">
+                      <div>{getLocalizedCityName(column.city, language)}</div>
+                      <div className="text-xs font-normal text-gray-500">
+                        {getCountryName(column.city.country, format.locale)}
+                      </div>
+                      {column.error && (
+                        <div className="text-xs font-normal text-red-600">{t(`error.${column.error.kind}.title`)}</div>
+                      )}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {dates.map(date => {
+                  const extremes = getDayExtremes(columns, date);
+                  return (
+                    <tr key={date} className="border-b border-gray-100 last:border-b-0">
+                      <td className="px-4 py-3 font-medium text-gray-600 whitespace-nowrap">
+                        {format.date(date, { weekday: 'short', month: 'short', day: 'numeric' })}
+                      </td>
+                      {columns.map((column, index) => {
+                        const day = getComparisonDay(column, date);
+                        const isWarmest = extremes.warmest.includes(index);
+                        const isWettest = extremes.wettest.includes(index);
+                        const isWindiest = extremes.windiest.includes(index);
+
+                        if (!day) {
+                          return (
+                            <td key={index} className="px-4 py-3 text-gray-400">{t('compare.noData')}</td>
+                          );
+                        }
+
+                        return (
+                          <td key={index} className="px-4 py-3 align-top">
+                            <div className="flex items-center gap-2">
+                              <span className="text-xl">{getWeatherIcon(day.icon)}</span>
+                              <span className={`font-semibold px-1 rounded ${isWarmest ? 'bg-orange-100 text-orange-700' : ''}`}>
+                                {format.temperatureShort(day.tempMax)}
+                              </span>
+                              <span className="text-gray-500">{format.temperatureShort(day.tempMin)}</span>
+                            </div>
+                            <div className={`flex items-center gap-1 mt-1 px-1 rounded ${isWettest ? 'bg-blue-100 text-blue-700' : 'text-gray-600'}`}>
+                              <Droplets className="w-3 h-3" />
+                              {format.precipitation(day.precipitation)} • {day.pop}%
+                            </div>
+                            <div className={`flex items-center gap-1 mt-1 px-1 rounded ${isWindiest ? 'bg-teal-100 text-teal-700' : 'text-gray-600'}`}>
+                              <Wind className="w-3 h-3" />
+                              {format.windSpeed(day.windSpeed)} {day.windDirection}
+                            </div>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Legend */}
+          <div className="flex flex-wrap gap-4 mt-4 text-sm text-white/90">
+            <span className="flex items-center gap-1">
+              <Thermometer className="w-4 h-4 text-orange-300" />
+              <span className="bg-orange-100 text-orange-700 px-2 rounded">{t('compare.warmest')}</span>
+            </span>
+            <span className="flex items-center gap-1">
+              <Droplets className="w-4 h-4 text-blue-200" />
+              <span className="bg-blue-100 text-blue-700 px-2 rounded">{t('compare.wettest')}</span>
+            </span>
+            <span className="flex items-center gap-1">
+              <Wind className="w-4 h-4 text-teal-200" />
+              <span className="bg-teal-100 text-teal-700 px-2 rounded">{t('compare.windiest')}</span>
+            </span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ComparisonView;
@@ -1,32 +1,54 @@
 import React from 'react';
-import { AlertCircle, RefreshCw } from 'lucide-react';
+import { AlertCircle, RefreshCw, FlaskConical } from 'lucide-react';
+import { WeatherApiError } from '../utils/errors';
+import { usePreferences } from '../contexts/PreferencesContext';
 
 interface ErrorMessageProps {
-  message: string;
+  error: WeatherApiError;
   onRetry?: () => void;
+  onUseDemo?: () => void;
 }
 
-const ErrorMessage: React.FC<ErrorMessageProps> = ({ message, onRetry }) => {
+const ErrorMessage: React.FC<ErrorMessageProps> = ({ error, onRetry, onUseDemo }) => {
+  const { t } = usePreferences();
+  const title = t(`error.${error.kind}.title`);
+  const guidance = t(`error.${error.kind}.guidance`);
+
   return (
     <div className="flex flex-col items-center justify-center py-12">
       <div className="bg-red-50 border border-red-200 rounded-xl p-6 max-w-md mx-auto">
         <div className="flex items-center gap-3 mb-4">
           <AlertCircle className="w-6 h-6 text-red-500" />
-          <h3 className="text-lg font-semibold text-red-800">Weather Data Unavailable</h3>
+          <h3 className="text-lg font-semibold text-red-800">{title}</h3>
+        </div>
+        <p className="text-red-700 mb-2">{error.message}</p>
+        <p className="text-red-600 text-sm mb-4">
+          {guidance}
+          {error.retryAfter && ` ${t('error.retryAfter', { seconds: error.retryAfter })}`}
+        </p>
+        <div className="flex flex-wrap gap-3">
+          {onRetry && (
+            <button
+              onClick={onRetry}
+              className="flex items-center gap-2 bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors"
+            >
+              <RefreshCw className="w-4 h-4" />
+              {t('common.tryAgain')}
+            </button>
+          )}
+          {onUseDemo && (
+            <button
+              onClick={onUseDemo}
+              className="flex items-center gap-2 bg-white text-red-700 border border-red-200 px-4 py-2 rounded-lg hover:bg-red-100 transition-colors"
+            >
+              <FlaskConical className="w-4 h-4" />
+              {t('error.useDemo')}
+            </button>
+          )}
         </div>
-        <p className="text-red-700 mb-4">{message}</p>
-        {onRetry && (
-          <button
-            onClick={onRetry}
-            className="flex items-center gap-2 bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors"
-          >
-            <RefreshCw className="w-4 h-4" />
-            Try Again
-          </button>
-        )}
       </div>
     </div>
   );
 };
 
-export default ErrorMessage;
\ No newline at end of file
+export default ErrorMessage;
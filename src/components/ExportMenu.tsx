@@ -0,0 +1,82 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Download, FileSpreadsheet, FileJson, CalendarPlus } from 'lucide-react';
+import { ExportFormat, EXPORT_FORMATS, ForecastExport, createExportFile, downloadFile } from '../utils/export';
+import { usePreferences } from '../contexts/PreferencesContext';
+
+interface ExportMenuProps {
+  data: ForecastExport;
+}
+
+const formatIcons: Record<ExportFormat, typeof Download> = {
+  'daily-csv': FileSpreadsheet,
+  'daily-json': FileJson,
+  'hourly-csv': FileSpreadsheet,
+  'hourly-json': FileJson,
+  ics: CalendarPlus
+};
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ data }) => {
+  const { format, language, t } = usePreferences();
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close on a click elsewhere or Escape
+  useEffect(() => {
+    if (!isOpen) return;
+    const handlePointerDown = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handlePointerDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handlePointerDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  const handleExport = (exportFormat: ExportFormat) => {
+    downloadFile(createExportFile(exportFormat, data, format, t, language));
+    setIsOpen(false);
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        className="flex items-center gap-2 bg-white/20 hover:bg-white/30 text-white px-4 py-2 rounded-lg transition-colors"
+      >
+        <Download className="w-4 h-4" />
+        {t('export.button')}
+      </button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute right-0 mt-2 w-64 bg-white rounded-lg shadow-xl border border-gray-200 py-1 z-20"
+        >
+          {EXPORT_FORMATS.map(exportFormat => {
+            const Icon = formatIcons[exportFormat];
+            return (
+              <button
+                key={exportFormat}
+                role="menuitem"
+                onClick={() => handleExport(exportFormat)}
+                className="w-full flex items-center gap-3 px-4 py-2 text-left text-sm text-gray-700 hover:bg-blue-50"
+              >
+                <Icon className="w-4 h-4 text-blue-500 flex-shrink-0" />
+                {t(`export.format.${exportFormat}`)}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,228 @@
+import React, { useState, useEffect } from 'react';
+import { Pencil, X, GripVertical, Loader2, Umbrella, WifiOff, AlertTriangle } from 'lucide-react';
+import { FavoriteLocation } from '../types/favorites';
+import { AlertRule } from '../types/alerts';
+import { HourlyForecastData, ProcessedWeatherData, WeatherAlert, WeatherProvider, WeatherResponse } from '../types/weather';
+import { getWeatherIcon, processHourlyData, processWeatherData } from '../utils/weatherApi';
+import { isAbortError, toWeatherApiError } from '../utils/errors';
+import { getCachedAt, getForecastCacheKey } from '../utils/cache';
+import { describeAlertRule, evaluateAlertRules, formatMetricValue, showAlertNotifications } from '../utils/alerts';
+import { getLastKnownForecast, isOfflineError, saveLastKnownForecast } from '../utils/offline';
+import { getLocalizedCityName, translateCondition } from '../i18n';
+import { usePreferences } from '../contexts/PreferencesContext';
+
+interface FavoriteTileProps {
+  favorite: FavoriteLocation;
+  provider: WeatherProvider;
+  // Changes when connectivity does, so the tile resyncs once back online
+  isOnline: boolean;
+  alertRules: AlertRule[];
+  isDragging?: boolean;
+  onSelect: () => void;
+  onRename: (label: string) => void;
+  onRemove: () => void;
+}
+
+interface TileForecast {
+  current: HourlyForecastData;
+  days: ProcessedWeatherData[];
+  officialAlerts: WeatherAlert[];
+  utcOffset: number;
+  // Set when the network is unreachable and a stored forecast is shown
+  storedAt?: number;
+}
+
+const toTileForecast = (rawData: WeatherResponse, storedAt?: number): TileForecast | null => {
+  const [current] = processHourlyData(rawData);
+  const days = processWeatherData(rawData);
+  return current && days.length > 0
+    ? { current, days, officialAlerts: rawData.alerts ?? [], utcOffset: rawData.city.timezone, storedAt }
+    : null;
+};
+
+const FavoriteTile: React.FC<FavoriteTileProps> = ({
+  favorite,
+  provider,
+  isOnline,
+  alertRules,
+  isDragging = false, onSelect, onRename, onRemove }) => {
+  const { format, language, t } = usePreferences();
+  const [forecast, setForecast] = useState<TileForecast | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [labelInput, setLabelInput] = useState('');
+
+  const { city } = favorite;
+  const displayName = favorite.label || getLocalizedCityName(city, language);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setFailed(false);
+
+    provider.fetchForecast(city.lat, city.lon, { lang: language, signal: controller.signal })
+      .then(rawData => {
+        if (controller.signal.aborted) return;
+        const fetchedAt = getCachedAt(getForecastCacheKey(provider.id, city.lat, city.lon, language)) ?? Date.now();
+        saveLastKnownForecast(city, { providerId: provider.id, response: rawData, fetchedAt });
+        const tileForecast = toTileForecast(rawData);
+        if (tileForecast) {
+          setForecast(tileForecast);
+        } else {
+          setFailed(true);
+        }
+      })
+      .catch(error => {
+        if (isAbortError(error) || controller.signal.aborted) return;
+        console.error(`Favorite forecast error (${city.name}):`, error);
+        const lastKnown = isOfflineError(toWeatherApiError(error, provider.name)) ? getLastKnownForecast(city) : null;
+        const tileForecast = lastKnown && toTileForecast(lastKnown.response, lastKnown.fetchedAt);
+        if (tileForecast) {
+          setForecast(tileForecast);
+        } else {
+          setFailed(true);
+        }
+      });
+
+    return () => controller.abort();
+  }, [provider, city, language, isOnline]);
+
+  const alertMatches = forecast ? evaluateAlertRules(alertRules, forecast.days) : [];
+
+  // Announce new alerts for this saved location; stored offline copies are old news
+  useEffect(() => {
+    if (!forecast || forecast.storedAt) return;
+    const now = Date.now() / 1000;
+    const title = t('alerts.notificationTitle', { city: displayName });
+
+    showAlertNotifications([
+      ...forecast.officialAlerts
+        .filter(alert => alert.end > now)
+        .map(alert => ({
+          key: `${favorite.id}|official|${alert.event}|${alert.start}`,
+          title,
+          body: t('alerts.official', { event: alert.event, sender: alert.sender_name })
+        })),
+      ...evaluateAlertRules(alertRules, forecast.days).map(match => ({
+        key: `${favorite.id}|${match.rule.metric}|${match.rule.comparison}|${match.rule.threshold}|${match.date}`,
+        title,
+        body: `${format.date(match.date, { weekday: 'short', day: 'numeric', month: 'short' })}: ${t('alerts.match', {
+          rule: describeAlertRule(match.rule, format, t),
+          value: formatMetricValue(match.rule.metric, match.value, format)
+        })}`
+      }))
+    ]);
+  }, [forecast, alertRules, favorite.id, displayName, format, t]);
+
+  const startEditing = () => {
+    setLabelInput(displayName);
+    setIsEditing(true);
+  };
+
+  const finishEditing = () => {
+    onRename(labelInput);
+    setIsEditing(false);
+  };
+
+  const handleLabelKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') finishEditing();
+    if (e.key === 'Escape') setIsEditing(false);
+  };
+
+  return (
+    <div
+      className={`relative bg-white/80 backdrop-blur-sm rounded-xl p-4 shadow-lg border border-gray-200 transition-all duration-200 ${
+        isDragging ? 'opacity-50 ring-2 ring-blue-300' : 'hover:shadow-xl'
+      }`}
+    >
+      <div className="flex items-start justify-between gap-2 mb-2">
+        <div className="flex items-center gap-1 min-w-0">
+          <GripVertical className="w-4 h-4 text-gray-400 flex-shrink-0 cursor-grab" />
+          {isEditing ? (
+            <input
+              value={labelInput}
+              onChange={(e) => setLabelInput(e.target.value)}
+              onBlur={finishEditing}
+              onKeyDown={handleLabelKeyDown}
+              autoFocus
+              className="w-full px-2 py-0.5 rounded border border-blue-300 text-sm font-semibold text-gray-800"
+            />
+          ) : (
+            <button
+              onClick={onSelect}
+              className="font-semibold text-gray-800 truncate hover:text-blue-600 text-left"
+              title={city.state ? `${city.name}, ${city.state}, ${city.country}` : `${city.name}, ${city.country}`}
+            >
+              {displayName}
+            </button>
+          )}
+        </div>
+        {!isEditing && (
+          <div className="flex items-center gap-1 flex-shrink-0">
+            <button
+              onClick={startEditing}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+              aria-label={t('favorites.rename')}
+              title={t('favorites.rename')}
+            >
+              <Pencil className="w-3.5 h-3.5" />
+            </button>
+            <button
+              onClick={onRemove}
+              className="text-gray-400 hover:text-red-500 transition-colors"
+              aria-label={t('favorites.remove')}
+              title={t('favorites.remove')}
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {forecast ? (
+        <button onClick={onSelect} className="w-full text-left">
+          <div className="flex items-center justify-between">
+            <span className="text-2xl font-bold text-gray-800">{format.temperature(forecast.current.temperature)}</span>
+            <span className="text-3xl">{getWeatherIcon(forecast.current.icon)}</span>
+          </div>
+          <p className="text-sm text-gray-600 capitalize truncate">
+            {translateCondition(language, forecast.current.conditionId, forecast.current.description)}
+          </p>
+          <div className="flex items-center justify-between mt-1 text-xs text-gray-500">
+            <span>
+              {format.temperatureShort(forecast.days[0].tempMin)}/{format.temperatureShort(forecast.days[0].tempMax)}
+            </span>
+            <span className="flex items-center gap-1">
+              <Umbrella className="w-3 h-3 text-blue-500" />
+              {forecast.current.pop}%
+            </span>
+            {alertMatches.length + forecast.officialAlerts.length > 0 && (
+              <span
+                className="flex items-center gap-1 text-amber-700 font-semibold"
+                title={t('alerts.count', { count: alertMatches.length + forecast.officialAlerts.length })}
+              >
+                <AlertTriangle className="w-3 h-3" />
+                {alertMatches.length + forecast.officialAlerts.length}
+              </span>
+            )}
+            {forecast.storedAt ? (
+              <span className="flex items-center gap-1 text-amber-700" title={t('offline.banner', { time: format.dateTime(forecast.storedAt) })}>
+                <WifiOff className="w-3 h-3" />
+                {format.time(forecast.current.dt, forecast.utcOffset)}
+              </span>
+            ) : (
+              <span>{format.time(forecast.current.dt, forecast.utcOffset)}</span>
+            )}
+          </div>
+        </button>
+      ) : failed ? (
+        <p className="text-sm text-gray-500 py-3">{t('favorites.unavailable')}</p>
+      ) : (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-blue-500" />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FavoriteTile;
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { Star } from 'lucide-react';
+import { FavoriteLocation } from '../types/favorites';
+import { AlertRule } from '../types/alerts';
+import { GeocodingResult, WeatherProvider } from '../types/weather';
+import FavoriteTile from './FavoriteTile';
+import { usePreferences } from '../contexts/PreferencesContext';
+
+interface FavoritesDashboardProps {
+  favorites: FavoriteLocation[];
+  provider: WeatherProvider;
+  isOnline: boolean;
+  alertRules: AlertRule[];
+  onSelect: (city: GeocodingResult) => void;
+  onRename: (id: string, label: string) => void;
+  onRemove: (id: string) => void;
+  onReorder: (from: number, to: number) => void;
+}
+
+const FavoritesDashboard: React.FC<FavoritesDashboardProps> = ({
+  favorites,
+  provider,
+  isOnline,
+  alertRules,
+  onSelect,
+  onRename,
+  onRemove,
+  onReorder
+}) => {
+  const { t } = usePreferences();
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  if (favorites.length === 0) return null;
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null) onReorder(dragIndex, index);
+    setDragIndex(null);
+  };
+
+  return (
+    <div className="w-full mb-8 print:hidden">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Star className="w-5 h-5 text-yellow-300 fill-yellow-300" />
+          <h2 className="text-xl font-bold text-white">{t('favorites.title')}</h2>
+        </div>
+        {favorites.length > 1 && (
+          <span className="text-white/70 text-sm">{t('favorites.reorderHint')}</span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        {favorites.map((favorite, index) => (
+          <div
+            key={favorite.id}
+            draggable
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = 'move';
+              setDragIndex(index);
+            }}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(index);
+            }}
+            onDragEnd={() => setDragIndex(null)}
+          >
+            <FavoriteTile
+              favorite={favorite}
+              provider={provider}
+              isOnline={isOnline}
+              alertRules={alertRules}
+              isDragging={dragIndex === index}
+              onSelect={() => onSelect(favorite.city)}
+              onRename={(label) => onRename(favorite.id, label)}
+              onRemove={() => onRemove(favorite.id)}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default FavoritesDashboard;
@@ -0,0 +1,381 @@
+import React, { useState } from 'react';
+import { LineChart, TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import { HourlyForecastData } from '../types/weather';
+import { Scale, createLinearScale, getLinePath } from '../utils/chart';
+import {
+  unitLabels,
+  convertTemperature,
+  convertWindSpeed,
+  convertPressure,
+  convertPrecipitation
+} from '../utils/units';
+import { usePreferences } from '../contexts/PreferencesContext';
+
+interface ForecastChartsProps {
+  // Every 3-hour slot of the forecast, in order
+  slots: HourlyForecastData[];
+  // Location UTC offset in seconds
+  utcOffset: number;
+  selectedDate: string | null;
+  // Without it the charts are for reading only, as in the printed report
+  onDaySelect?: (date: string) => void;
+}
+
+interface DayRange {
+  date: string;
+  first: number;
+  last: number;
+}
+
+// Charts are drawn in a fixed coordinate space and scaled to the container width
+const WIDTH = 800;
+const MARGIN_LEFT = 44;
+const MARGIN_RIGHT = 12;
+const DAY_LABEL_HEIGHT = 18;
+const PLOT_HEIGHT = 110;
+const PLOT_PADDING = 8;
+
+// Change over the next 24 hours that counts as a rising or falling barometer
+const PRESSURE_TREND_HPA = 3;
+
+const getDayRanges = (slots: HourlyForecastData[]): DayRange[] =>
+  slots.reduce<DayRange[]>((days, slot, index) => {
+    const last = days[days.length - 1];
+    if (last && last.date === slot.date) {
+      last.last = index;
+    } else {
+      days.push({ date: slot.date, first: index, last: index });
+    }
+    return days;
+  }, []);
+
+const getPressureTrend = (slots: HourlyForecastData[]): 'rising' | 'falling' | 'steady' => {
+  const change = slots[Math.min(8, slots.length - 1)].pressure - slots[0].pressure;
+  if (change >= PRESSURE_TREND_HPA) return 'rising';
+  if (change <= -PRESSURE_TREND_HPA) return 'falling';
+  return 'steady';
+};
+
+interface ChartProps {
+  title: string;
+  legend?: React.ReactNode;
+  scale: Scale;
+  formatTick: (value: number) => string;
+  showDayLabels?: boolean;
+  days: DayRange[];
+  selectedDate: string | null;
+  hoverIndex: number | null;
+  step: number;
+  formatDay: (date: string) => string;
+  onHover: (index: number | null) => void;
+  onDaySelect?: (date: string) => void;
+  children: React.ReactNode;
+}
+
+// One plot with day bands, a y axis and the hover guide; the series are passed as children
+const Chart: React.FC<ChartProps> = ({
+  title,
+  legend,
+  scale,
+  formatTick,
+  showDayLabels = false,
+  days,
+  selectedDate,
+  hoverIndex,
+  step,
+  formatDay,
+  onHover,
+  onDaySelect,
+  children
+}) => {
+  const top = showDayLabels ? DAY_LABEL_HEIGHT : 0;
+  const height = top + PLOT_HEIGHT;
+  const slotCount = days.length > 0 ? days[days.length - 1].last + 1 : 0;
+
+  const getIndex = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * WIDTH;
+    const index = Math.floor((x - MARGIN_LEFT) / step);
+    return index >= 0 && index < slotCount ? index : null;
+  };
+
+  const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const index = getIndex(e);
+    const day = index === null ? undefined : days.find(range => index >= range.first && index <= range.last);
+    if (day) onDaySelect?.(day.date);
+  };
+
+  return (
+    <div className="mb-2 break-inside-avoid">
+      <div className="flex items-center justify-between text-sm mb-1">
+        <span className="font-semibold text-gray-700">{title}</span>
+        {legend && <span className="flex items-center gap-3 text-xs text-gray-500">{legend}</span>}
+      </div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        className={`w-full h-auto select-none ${onDaySelect ? 'cursor-pointer' : ''}`}
+        onMouseMove={(e) => onHover(getIndex(e))}
+        onMouseLeave={() => onHover(null)}
+        onClick={handleClick}
+        role="img"
+        aria-label={title}
+      >
+        {/* Day bands */}
+        {days.map((day, index) => {
+          const x = MARGIN_LEFT + day.first * step;
+          const width = (day.last - day.first + 1) * step;
+          const isSelected = day.date === selectedDate;
+          return (
+            <g key={day.date}>
+              <rect
+                x={x}
+                y={top}
+                width={width}
+                height={PLOT_HEIGHT}
+                className={isSelected ? 'fill-blue-100' : index % 2 === 1 ? 'fill-gray-50' : 'fill-white'}
+              />
+              {showDayLabels && (
+                <text
+                  x={x + width / 2}
+                  y={12}
+                  textAnchor="middle"
+                  className={`text-[11px] ${isSelected ? 'fill-blue-700 font-semibold' : 'fill-gray-500'}`}
+                >
+                  {formatDay(day.date)}
+                </text>
+              )}
+            </g>
+          );
+        })}
+
+        {/* Y axis */}
+        {scale.ticks.map(tick => (
+          <g key={tick}>
+            <line
+              x1={MARGIN_LEFT}
+              x2={WIDTH - MARGIN_RIGHT}
+              y1={top + scale(tick)}
+              y2={top + scale(tick)}
+              className="stroke-gray-200"
+              strokeDasharray="2 3"
+            />
+            <text x={MARGIN_LEFT - 6} y={top + scale(tick) + 4} textAnchor="end" className="text-[10px] fill-gray-500">
+              {formatTick(tick)}
+            </text>
+          </g>
+        ))}
+
+        <g transform={`translate(0, ${top})`}>{children}</g>
+
+        {hoverIndex !== null && (
+          <line
+            x1={MARGIN_LEFT + (hoverIndex + 0.5) * step}
+            x2={MARGIN_LEFT + (hoverIndex + 0.5) * step}
+            y1={top}
+            y2={height}
+            className="stroke-gray-400"
+          />
+        )}
+      </svg>
+    </div>
+  );
+};
+
+const ForecastCharts: React.FC<ForecastChartsProps> = ({ slots, utcOffset, selectedDate, onDaySelect }) => {
+  const { preferences, format, t } = usePreferences();
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+  const { units } = preferences;
+
+  if (slots.length < 2) return null;
+
+  const days = getDayRanges(slots);
+  const step = (WIDTH - MARGIN_LEFT - MARGIN_RIGHT) / slots.length;
+  const getX = (index: number) => MARGIN_LEFT + (index + 0.5) * step;
+  const bottom = PLOT_HEIGHT - PLOT_PADDING;
+
+  // Values are plotted in the user's units so the axis ticks come out round
+  const temperatures = slots.map(slot => convertTemperature(slot.temperature, units.temperature));
+  const feelsLike = slots.map(slot => convertTemperature(slot.feelsLike, units.temperature));
+  const precipitation = slots.map(slot => convertPrecipitation(slot.precipitation, units.precipitation));
+  const windSpeeds = slots.map(slot => convertWindSpeed(slot.windSpeed, units.windSpeed));
+  const pressures = slots.map(slot => convertPressure(slot.pressure, units.pressure));
+
+  const temperatureScale = createLinearScale([...temperatures, ...feelsLike], bottom, PLOT_PADDING);
+  const precipitationScale = createLinearScale(precipitation, bottom, PLOT_PADDING, {
+    includeZero: true,
+    minSpan: units.precipitation === 'in' ? 0.1 : 2
+  });
+  const windScale = createLinearScale(windSpeeds, bottom - 14, PLOT_PADDING, { includeZero: true, minSpan: 5 });
+  const pressureScale = createLinearScale(pressures, bottom, PLOT_PADDING, {
+    minSpan: units.pressure === 'inHg' ? 0.2 : 6
+  });
+  const pressureTrend = getPressureTrend(slots);
+  const TrendIcon = pressureTrend === 'rising' ? TrendingUp : pressureTrend === 'falling' ? TrendingDown : Minus;
+  // Leave out every other wind arrow when slots get too narrow to tell them apart
+  const arrowEvery = step < 14 ? 2 : 1;
+
+  const chartProps = {
+    days,
+    selectedDate,
+    hoverIndex,
+    step,
+    formatDay: (date: string) => format.date(date, { weekday: 'short', day: 'numeric' }),
+    onHover: setHoverIndex,
+    onDaySelect
+  };
+
+  const hovered = hoverIndex !== null ? slots[hoverIndex] : null;
+  // Keep the tooltip inside the panel near the edges
+  const tooltipPosition = hoverIndex !== null ? getX(hoverIndex) / WIDTH : 0;
+  const tooltipShift = tooltipPosition < 0.2 ? '0%' : tooltipPosition > 0.8 ? '-100%' : '-50%';
+
+  return (
+    <div className="mt-6 bg-white/80 backdrop-blur-sm rounded-xl p-4 shadow-lg border border-gray-200 print:p-0 print:shadow-none print:border-0">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <LineChart className="w-5 h-5 text-blue-500" />
+          <h3 className="text-lg font-semibold text-gray-800">{t('charts.title')}</h3>
+        </div>
+        <span className="text-xs text-gray-500 print:hidden">
+          {onDaySelect ? t('charts.hint') : t('charts.hintReadOnly')}
+        </span>
+      </div>
+
+      <div className="relative">
+        {hovered && (
+          <div
+            className="absolute top-6 z-10 pointer-events-none bg-gray-900/90 text-white text-xs rounded-lg px-3 py-2 shadow-lg whitespace-nowrap"
+            style={{ left: `${tooltipPosition * 100}%`, transform: `translateX(${tooltipShift})` }}
+          >
+            <p className="font-semibold mb-1">
+              {format.date(hovered.date, { weekday: 'short', day: 'numeric', month: 'short' })} {format.time(hovered.dt, utcOffset)}
+            </p>
+            <p>{t('charts.temperature')}: {format.temperature(hovered.temperature)} ({t('charts.feelsLike')} {format.temperature(hovered.feelsLike)})</p>
+            <p>{t('charts.precipitation')}: {format.precipitation(hovered.precipitation)} • {t('card.chance', { pop: hovered.pop })}</p>
+            <p>{t('charts.wind')}: {format.windSpeed(hovered.windSpeed)} {hovered.windDirection}</p>
+            <p>{t('charts.pressure')}: {format.pressure(hovered.pressure)}</p>
+          </div>
+        )}
+
+        {/* Temperature */}
+        <Chart
+          {...chartProps}
+          title={`${t('charts.temperature')} (${unitLabels.temperature[units.temperature]})`}
+          legend={
+            <>
+              <span className="flex items-center gap-1"><span className="w-3 h-0.5 bg-orange-500" />{t('charts.temperature')}</span>
+              <span className="flex items-center gap-1"><span className="w-3 border-t border-dashed border-purple-500" />{t('charts.feelsLike')}</span>
+            </>
+          }
+          scale={temperatureScale}
+          formatTick={(value) => format.number(value)}
+          showDayLabels
+        >
+          <path
+            d={getLinePath(feelsLike.map((value, index) => [getX(index), temperatureScale(value)]))}
+            className="stroke-purple-500"
+            fill="none"
+            strokeWidth={1.5}
+            strokeDasharray="4 3"
+          />
+          <path
+            d={getLinePath(temperatures.map((value, index) => [getX(index), temperatureScale(value)]))}
+            className="stroke-orange-500"
+            fill="none"
+            strokeWidth={2}
+          />
+          {hoverIndex !== null && (
+            <circle cx={getX(hoverIndex)} cy={temperatureScale(temperatures[hoverIndex])} r={3.5} className="fill-orange-500" />
+          )}
+        </Chart>
+
+        {/* Precipitation */}
+        <Chart
+          {...chartProps}
+          title={`${t('charts.precipitation')} (${unitLabels.precipitation[units.precipitation]})`}
+          legend={
+            <>
+              <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 bg-blue-500" />{t('charts.precipitation')}</span>
+              <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 bg-blue-200" />{t('charts.pop')}</span>
+            </>
+          }
+          scale={precipitationScale}
+          formatTick={(value) => format.number(value, units.precipitation === 'in' ? 1 : 0)}
+        >
+          {slots.map((slot, index) => {
+            const popHeight = (slot.pop / 100) * (bottom - PLOT_PADDING);
+            const barTop = precipitationScale(precipitation[index]);
+            return (
+              <g key={slot.dt}>
+                <rect
+                  x={MARGIN_LEFT + index * step}
+                  y={bottom - popHeight}
+                  width={step}
+                  height={popHeight}
+                  className="fill-blue-200"
+                  opacity={0.6}
+                />
+                {precipitation[index] > 0 && (
+                  <rect
+                    x={getX(index) - step * 0.3}
+                    y={barTop}
+                    width={step * 0.6}
+                    height={bottom - barTop}
+                    className={slot.precipitationType === 'snow' ? 'fill-sky-300' : 'fill-blue-500'}
+                  />
+                )}
+              </g>
+            );
+          })}
+        </Chart>
+
+        {/* Wind */}
+        <Chart
+          {...chartProps}
+          title={`${t('charts.wind')} (${unitLabels.windSpeed[units.windSpeed]})`}
+          scale={windScale}
+          formatTick={(value) => format.number(value)}
+        >
+          <path
+            d={getLinePath(windSpeeds.map((value, index) => [getX(index), windScale(value)]))}
+            className="stroke-teal-500"
+            fill="none"
+            strokeWidth={2}
+          />
+          {slots.map((slot, index) => index % arrowEvery === 0 && (
+            // Arrows point where the wind blows to
+            <path
+              key={slot.dt}
+              d="M0,-5 L3.5,3 L0,1 L-3.5,3 Z"
+              transform={`translate(${getX(index)}, ${bottom - 2}) rotate(${slot.windDeg + 180})`}
+              className="fill-teal-700"
+            />
+          ))}
+        </Chart>
+
+        {/* Pressure */}
+        <Chart
+          {...chartProps}
+          title={`${t('charts.pressure')} (${unitLabels.pressure[units.pressure]})`}
+          legend={
+            <span className="flex items-center gap-1 font-medium text-gray-600">
+              <TrendIcon className="w-4 h-4" />
+              {t(`charts.trend.${pressureTrend}`)}
+            </span>
+          }
+          scale={pressureScale}
+          formatTick={(value) => format.number(value, units.pressure === 'inHg' ? 1 : 0)}
+        >
+          <path
+            d={getLinePath(pressures.map((value, index) => [getX(index), pressureScale(value)]))}
+            className="stroke-gray-500"
+            fill="none"
+            strokeWidth={2}
+          />
+        </Chart>
+      </div>
+    </div>
+  );
+};
+
+export default ForecastCharts;
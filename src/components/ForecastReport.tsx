@@ -0,0 +1,143 @@
+import React from 'react';
+import { Printer, MapPin } from 'lucide-react';
+import { GeocodingResult, HourlyForecastData, ProcessedWeatherData } from '../types/weather';
+import { DayAstronomy } from '../types/astronomy';
+import { getWeatherIcon } from '../utils/weatherApi';
+import { formatUtcOffset } from '../utils/time';
+import { getCountryName } from '../utils/countries';
+import { getLocalizedCityName, translateCondition } from '../i18n';
+import { usePreferences } from '../contexts/PreferencesContext';
+import ForecastCharts from './ForecastCharts';
+
+interface ForecastReportProps {
+  city: GeocodingResult;
+  days: ProcessedWeatherData[];
+  // Sun and moon for each of `days`
+  astronomy: DayAstronomy[];
+  slots: HourlyForecastData[];
+  // Location UTC offset in seconds
+  utcOffset: number;
+  source: string;
+  // When the forecast was fetched, epoch ms
+  fetchedAt: number | null;
+}
+
+// A week is the most any provider forecasts, and what fits one page
+const REPORT_DAYS = 7;
+
+// Plain black-on-white summary of the forecast, laid out to print on one A4 or Letter page
+const ForecastReport: React.FC<ForecastReportProps> = ({
+  city,
+  days,
+  astronomy,
+  slots,
+  utcOffset,
+  source,
+  fetchedAt
+}) => {
+  const { format, language, t } = usePreferences();
+  const reportDays = days.slice(0, REPORT_DAYS);
+  const reportDates = new Set(reportDays.map(day => day.date));
+  const place = [
+    getLocalizedCityName(city, language),
+    city.state,
+    city.country && getCountryName(city.country, format.locale)
+  ].filter(Boolean).join(', ');
+
+  const formatSunEvent = (dt: number | null) => (dt === null ? '—' : format.time(dt, utcOffset));
+
+  return (
+    <div className="bg-white text-gray-900 rounded-xl p-6 shadow-lg print:shadow-none print:rounded-none print:p-0">
+      {/* Title */}
+      <div className="flex items-start justify-between gap-4 mb-4 pb-3 border-b-2 border-gray-800">
+        <div>
+          <h2 className="text-2xl font-bold">{t('report.title', { days: reportDays.length })}</h2>
+          <p className="flex items-center gap-1 text-gray-700">
+            <MapPin className="w-4 h-4" />
+            {place}
+          </p>
+          <p className="text-xs text-gray-500">
+            {format.number(city.lat, 4)}, {format.number(city.lon, 4)} • {formatUtcOffset(utcOffset)}
+          </p>
+        </div>
+        <button
+          onClick={() => window.print()}
+          className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium px-4 py-2 rounded-lg transition-colors print:hidden"
+        >
+          <Printer className="w-4 h-4" />
+          {t('report.print')}
+        </button>
+      </div>
+
+      {/* Daily Summary */}
+      <table className="w-full text-sm border-collapse">
+        <thead>
+          <tr className="text-left text-xs uppercase tracking-wide text-gray-600 border-b border-gray-400">
+            <th className="py-1.5 pr-2 font-semibold">{t('report.day')}</th>
+            <th className="py-1.5 pr-2 font-semibold">{t('report.conditions')}</th>
+            <th className="py-1.5 pr-2 font-semibold text-right">{t('report.highLow')}</th>
+            <th className="py-1.5 pr-2 font-semibold text-right">{t('card.precipitation')}</th>
+            <th className="py-1.5 pr-2 font-semibold text-right">{t('card.wind')}</th>
+            <th className="py-1.5 pr-2 font-semibold text-right">{t('card.humidity')}</th>
+            <th className="py-1.5 pr-2 font-semibold text-right">{t('card.pressure')}</th>
+            <th className="py-1.5 font-semibold text-right">{t('report.sun')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {reportDays.map((day, index) => {
+            const sun = astronomy[index]?.sun;
+            return (
+              <tr key={day.date} className="border-b border-gray-200 break-inside-avoid">
+                <td className="py-1.5 pr-2 font-medium whitespace-nowrap">
+                  {format.date(day.date, { weekday: 'short', day: 'numeric', month: 'short' })}
+                </td>
+                <td className="py-1.5 pr-2 capitalize">
+                  <span className="mr-1" aria-hidden="true">{getWeatherIcon(day.icon)}</span>
+                  {translateCondition(language, day.conditionId, day.description)}
+                </td>
+                <td className="py-1.5 pr-2 text-right whitespace-nowrap font-medium">
+                  {format.temperatureShort(day.tempMax)} / {format.temperatureShort(day.tempMin)}
+                </td>
+                <td className="py-1.5 pr-2 text-right whitespace-nowrap">
+                  {format.precipitation(day.precipitation)}
+                  <span className="block text-xs text-gray-500">{t('card.chance', { pop: day.pop })}</span>
+                </td>
+                <td className="py-1.5 pr-2 text-right whitespace-nowrap">
+                  {format.windSpeed(day.windSpeed)} {day.windDirection}
+                  <span className="block text-xs text-gray-500">
+                    {t('card.gusts', { speed: format.windSpeed(day.windGust) })}
+                  </span>
+                </td>
+                <td className="py-1.5 pr-2 text-right">{day.humidity}%</td>
+                <td className="py-1.5 pr-2 text-right whitespace-nowrap">{format.pressure(day.pressure)}</td>
+                <td className="py-1.5 text-right whitespace-nowrap">
+                  {sun && (sun.sunrise !== null && sun.sunset !== null
+                    ? `${formatSunEvent(sun.sunrise)} – ${formatSunEvent(sun.sunset)}`
+                    : t(sun.dayLength > 0 ? 'sun.midnightSun' : 'sun.polarNight'))}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {/* Charts */}
+      <ForecastCharts
+        slots={slots.filter(slot => reportDates.has(slot.date))}
+        utcOffset={utcOffset}
+        selectedDate={null}
+      />
+
+      {/* Generated */}
+      <p className="mt-4 pt-2 border-t border-gray-300 text-xs text-gray-500">
+        {t('report.generated', { time: format.dateTime(Date.now()) })}
+        {' • '}
+        {fetchedAt
+          ? t('report.source', { source, time: format.dateTime(fetchedAt) })
+          : source}
+      </p>
+    </div>
+  );
+};
+
+export default ForecastReport;
@@ -0,0 +1,87 @@
+import React from 'react';
+import { Droplets, Wind, Umbrella, Clock } from 'lucide-react';
+import { HourlyForecastData } from '../types/weather';
+import { getWeatherIcon } from '../utils/weatherApi';
+import { translateCondition } from '../i18n';
+import { usePreferences } from '../contexts/PreferencesContext';
+
+interface HourlyTimelineProps {
+  slots: HourlyForecastData[];
+  // Location UTC offset in seconds, used to show slot times as wall-clock time there
+  utcOffset: number;
+  selectedDayLabel?: string;
+  showViewerTime?: boolean;
+  onShowAll?: () => void;
+}
+
+const HourlyTimeline: React.FC<HourlyTimelineProps> = ({ slots, utcOffset, selectedDayLabel, showViewerTime = false, onShowAll }) => {
+  const { format, language, t } = usePreferences();
+
+  if (slots.length === 0) return null;
+
+  const isFirstOfDay = (index: number) => index === 0 || slots[index - 1].date !== slots[index].date;
+
+  const formatDay = (date: string) => format.date(date, { weekday: 'short', month: 'short', day: 'numeric' });
+
+  return (
+    <div className="mt-6 bg-white/80 backdrop-blur-sm rounded-xl p-4 shadow-lg border border-gray-200">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Clock className="w-5 h-5 text-blue-500" />
+          <h3 className="text-lg font-semibold text-gray-800">
+            {t('hourly.title')}{selectedDayLabel && ` • ${selectedDayLabel}`}
+          </h3>
+        </div>
+        {onShowAll && (
+          <button
+            onClick={onShowAll}
+            className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+          >
+            {t('hourly.showAll')}
+          </button>
+        )}
+      </div>
+
+      <div className="flex gap-3 overflow-x-auto pb-2">
+        {slots.map((slot, index) => (
+          <div key={slot.dt} className="flex gap-3">
+            {isFirstOfDay(index) && !selectedDayLabel && (
+              <div className="flex items-center">
+                <span className="text-xs font-semibold text-gray-500 uppercase [writing-mode:vertical-rl] rotate-180">
+                  {formatDay(slot.date)}
+                </span>
+              </div>
+            )}
+            <div className="flex-shrink-0 w-28 bg-white rounded-lg border border-gray-100 p-3 text-center">
+              <p className="text-sm font-semibold text-gray-700">{format.time(slot.dt, utcOffset)}</p>
+              {showViewerTime && (
+                <p className="text-xs text-gray-400" title={t('hourly.viewerTime')}>{format.viewerTime(slot.dt)}</p>
+              )}
+              <div className="text-2xl my-1" title={translateCondition(language, slot.conditionId, slot.description)}>{getWeatherIcon(slot.icon)}</div>
+              <p className="text-xl font-bold text-gray-800">{format.temperature(slot.temperature)}</p>
+              <p className="text-xs text-gray-500">{t('hourly.feelsLike', { temperature: format.temperatureShort(slot.feelsLike) })}</p>
+              <div className="mt-2 space-y-1 text-xs text-gray-600">
+                <div className="flex items-center justify-center gap-1" title={t('hourly.pop')}>
+                  <Umbrella className="w-3 h-3 text-blue-500" />
+                  {slot.pop}%
+                </div>
+                <div className="flex items-center justify-center gap-1">
+                  <Wind className="w-3 h-3 text-gray-500" />
+                  {format.windSpeed(slot.windSpeed)} {slot.windDirection}
+                </div>
+                {slot.precipitation > 0 && (
+                  <div className="flex items-center justify-center gap-1">
+                    <Droplets className="w-3 h-3 text-blue-500" />
+                    {format.precipitation(slot.precipitation)}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default HourlyTimeline;
@@ -1,11 +1,14 @@
 import React from 'react';
 import { Loader2 } from 'lucide-react';
+import { usePreferences } from '../contexts/PreferencesContext';
 
 const LoadingSpinner: React.FC = () => {
+  const { t } = usePreferences();
+
   return (
     <div className="flex flex-col items-center justify-center py-12">
       <Loader2 className="w-8 h-8 text-blue-500 animate-spin mb-4" />
-      <p className="text-gray-600">Loading weather data...</p>
+      <p className="text-gray-600">{t('forecast.loading')}</p>
     </div>
   );
 };
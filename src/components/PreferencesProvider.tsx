@@ -0,0 +1,41 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Preferences } from '../types/preferences';
+import { PreferencesContext } from '../contexts/PreferencesContext';
+import { loadPreferences, savePreferences } from '../utils/preferences';
+import { createFormatter } from '../utils/format';
+import { getLanguage, translate, MessageKey, TranslationParams } from '../i18n';
+
+interface PreferencesProviderProps {
+  children: React.ReactNode;
+}
+
+const PreferencesProvider: React.FC<PreferencesProviderProps> = ({ children }) => {
+  const [preferences, setPreferences] = useState<Preferences>(loadPreferences);
+
+  useEffect(() => {
+    savePreferences(preferences);
+  }, [preferences]);
+
+  const language = getLanguage(preferences.locale);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const value = useMemo(() => ({
+    preferences,
+    updatePreferences: (changes: Partial<Preferences>) =>
+      setPreferences(prev => ({ ...prev, ...changes })),
+    format: createFormatter(preferences),
+    language,
+    t: (key: MessageKey, params?: TranslationParams) => translate(language, key, params)
+  }), [preferences, language]);
+
+  return (
+    <PreferencesContext.Provider value={value}>
+      {children}
+    </PreferencesContext.Provider>
+  );
+};
+
+export default PreferencesProvider;
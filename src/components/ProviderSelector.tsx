@@ -0,0 +1,41 @@
+import React from 'react';
+import { Database } from 'lucide-react';
+import { WeatherProvider } from '../types/weather';
+import { usePreferences } from '../contexts/PreferencesContext';
+
+interface ProviderSelectorProps {
+  providers: WeatherProvider[];
+  selectedProviderId: string;
+  onProviderChange: (providerId: string) => void;
+}
+
+const ProviderSelector: React.FC<ProviderSelectorProps> = ({
+  providers,
+  selectedProviderId,
+  onProviderChange
+}) => {
+  const { t } = usePreferences();
+
+  return (
+    <div className="flex items-center justify-center gap-3 mb-6">
+      <Database className="w-5 h-5 text-white/80" />
+      <label htmlFor="provider-select" className="text-white/90 text-sm font-medium">
+        {t('provider.label')}
+      </label>
+      <select
+        id="provider-select"
+        value={selectedProviderId}
+        onChange={(e) => onProviderChange(e.target.value)}
+        className="bg-white/90 text-gray-800 text-sm font-medium rounded-lg px-3 py-2 border border-gray-200 focus:border-blue-500 focus:ring-2 focus:ring-blue-200 shadow"
+      >
+        {providers.map(provider => (
+          <option key={provider.id} value={provider.id}>
+            {provider.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default ProviderSelector;
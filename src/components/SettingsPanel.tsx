@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { KeyRound, CheckCircle, XCircle, AlertTriangle, Loader2, Trash2, X } from 'lucide-react';
+import { ApiKeyStatus, validateApiKey } from '../utils/weatherApi';
+import { getApiKey, getApiKeySource, saveApiKey, clearApiKey } from '../utils/apiKey';
+import { MessageKey } from '../i18n';
+import { usePreferences } from '../contexts/PreferencesContext';
+
+interface SettingsPanelProps {
+  onClose: () => void;
+  onApiKeyChange: () => void;
+}
+
+const statusMessages: Record<ApiKeyStatus, MessageKey> = {
+  'valid': 'settings.apiKey.valid',
+  'invalid': 'settings.apiKey.invalid',
+  'rate-limited': 'settings.apiKey.rateLimited',
+  'error': 'settings.apiKey.error'
+};
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ onClose, onApiKeyChange }) => {
+  const { t } = usePreferences();
+  const [keyInput, setKeyInput] = useState('');
+  const [status, setStatus] = useState<ApiKeyStatus | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+  const [source, setSource] = useState(getApiKeySource());
+
+  const maskKey = (key: string) => `${key.slice(0, 4)}${'•'.repeat(8)}${key.slice(-4)}`;
+
+  const currentKey = getApiKey();
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!keyInput.trim()) return;
+
+    setIsTesting(true);
+    setStatus(null);
+    const result = await validateApiKey(keyInput);
+    setIsTesting(false);
+    setStatus(result);
+
+    // A rate-limited key is still a known key, so keep it
+    if (result === 'valid' || result === 'rate-limited') {
+      saveApiKey(keyInput);
+      setKeyInput('');
+      setSource(getApiKeySource());
+      onApiKeyChange();
+    }
+  };
+
+  const handleClear = () => {
+    clearApiKey();
+    setStatus(null);
+    setSource(getApiKeySource());
+    onApiKeyChange();
+  };
+
+  const getStatusIcon = () => {
+    switch (status) {
+      case 'valid':
+        return <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0" />;
+      case 'invalid':
+        return <XCircle className="w-5 h-5 text-red-600 flex-shrink-0" />;
+      default:
+        return <AlertTriangle className="w-5 h-5 text-amber-600 flex-shrink-0" />;
+    }
+  };
+
+  return (
+    <div className="w-full max-w-3xl mx-auto mb-8 bg-white/90 backdrop-blur-sm rounded-xl p-6 shadow-lg border border-gray-200">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <KeyRound className="w-5 h-5 text-blue-500" />
+          <h2 className="text-lg font-semibold text-gray-800">{t('settings.apiKey.title')}</h2>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-600 transition-colors"
+          aria-label={t('settings.close')}
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">
+        {currentKey
+          ? t(source === 'env' ? 'settings.apiKey.fromEnv' : 'settings.apiKey.fromBrowser', { key: maskKey(currentKey) })
+          : t('settings.apiKey.none')}
+      </p>
+
+      <form onSubmit={handleSave} className="flex flex-col sm:flex-row gap-3">
+        <input
+          type="password"
+          value={keyInput}
+          onChange={(e) => setKeyInput(e.target.value)}
+          placeholder={t('settings.apiKey.placeholder')}
+          autoComplete="off"
+          className="flex-1 px-4 py-2 rounded-lg border border-gray-200 focus:border-blue-500 focus:ring-2 focus:ring-blue-200 text-gray-800"
+        />
+        <button
+          type="submit"
+          disabled={isTesting || !keyInput.trim()}
+          className="flex items-center justify-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {isTesting && <Loader2 className="w-4 h-4 animate-spin" />}
+          {t('settings.apiKey.save')}
+        </button>
+        {source === 'settings' && (
+          <button
+            type="button"
+            onClick={handleClear}
+            className="flex items-center justify-center gap-2 bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            <Trash2 className="w-4 h-4" />
+            {t('settings.apiKey.clear')}
+          </button>
+        )}
+      </form>
+
+      {status && (
+        <div className="flex items-start gap-2 mt-4 text-sm text-gray-700">
+          {getStatusIcon()}
+          <span>{t(statusMessages[status])}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,105 @@
+import React from 'react';
+import { Sun, Moon } from 'lucide-react';
+import { DayAstronomy } from '../types/astronomy';
+import { MOON_PHASE_EMOJI } from '../utils/astronomy';
+import { usePreferences } from '../contexts/PreferencesContext';
+
+interface SunMoonPanelProps {
+  astronomy: DayAstronomy;
+  // Location UTC offset in seconds
+  utcOffset: number;
+}
+
+const SunMoonPanel: React.FC<SunMoonPanelProps> = ({ astronomy, utcOffset }) => {
+  const { format, t } = usePreferences();
+  const { sun, moon } = astronomy;
+
+  const formatEvent = (dt: number | null) => (dt === null ? '—' : format.time(dt, utcOffset));
+
+  const twilights = [
+    { label: t('sun.civil'), dawn: sun.civilDawn, dusk: sun.civilDusk },
+    { label: t('sun.nautical'), dawn: sun.nauticalDawn, dusk: sun.nauticalDusk },
+    { label: t('sun.astronomical'), dawn: sun.astronomicalDawn, dusk: sun.astronomicalDusk }
+  ];
+
+  return (
+    <div className="mt-6 bg-white/80 backdrop-blur-sm rounded-xl p-4 shadow-lg border border-gray-200">
+      <h3 className="text-lg font-semibold text-gray-800 mb-3">
+        {t('sun.title', { date: format.date(astronomy.date, { weekday: 'long', day: 'numeric', month: 'long' }) })}
+      </h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {/* Sun */}
+        <div>
+          <div className="flex items-center gap-2 mb-2 font-semibold text-gray-700">
+            <Sun className="w-4 h-4 text-yellow-500" />
+            {t('sun.sun')}
+          </div>
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+            <dt className="text-gray-500">{t('sun.sunrise')}</dt>
+            <dd className="font-medium text-gray-800">{formatEvent(sun.sunrise)}</dd>
+            <dt className="text-gray-500">{t('sun.sunset')}</dt>
+            <dd className="font-medium text-gray-800">{formatEvent(sun.sunset)}</dd>
+            <dt className="text-gray-500">{t('sun.solarNoon')}</dt>
+            <dd className="font-medium text-gray-800">{format.time(sun.solarNoon, utcOffset)}</dd>
+            <dt className="text-gray-500">{t('sun.dayLength')}</dt>
+            <dd className="font-medium text-gray-800">
+              {format.duration(sun.dayLength)}
+              {sun.sunrise === null && (
+                <span className="block text-xs text-gray-500">
+                  {t(sun.dayLength > 0 ? 'sun.midnightSun' : 'sun.polarNight')}
+                </span>
+              )}
+            </dd>
+          </dl>
+
+          <table className="w-full text-sm mt-3">
+            <thead>
+              <tr className="text-xs text-gray-500 text-left">
+                <th className="py-1 font-medium">{t('sun.twilight')}</th>
+                <th className="py-1 font-medium">{t('sun.dawn')}</th>
+                <th className="py-1 font-medium">{t('sun.dusk')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {twilights.map(({ label, dawn, dusk }) => (
+                <tr key={label} className="border-t border-gray-100 text-gray-800">
+                  <td className="py-1 text-gray-600">{label}</td>
+                  <td className="py-1 font-medium">{formatEvent(dawn)}</td>
+                  <td className="py-1 font-medium">{formatEvent(dusk)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Moon */}
+        <div>
+          <div className="flex items-center gap-2 mb-2 font-semibold text-gray-700">
+            <Moon className="w-4 h-4 text-indigo-400" />
+            {t('moon.moon')}
+          </div>
+          <div className="flex items-center gap-3 mb-3">
+            <span className="text-4xl" aria-hidden="true">{MOON_PHASE_EMOJI[moon.phaseName]}</span>
+            <div>
+              <p className="font-medium text-gray-800">{t(`moon.phase.${moon.phaseName}`)}</p>
+              <p className="text-sm text-gray-500">
+                {t('moon.illumination', { percent: format.number(moon.illumination * 100) })}
+              </p>
+            </div>
+          </div>
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+            <dt className="text-gray-500">{t('moon.moonrise')}</dt>
+            <dd className="font-medium text-gray-800">{formatEvent(moon.moonrise)}</dd>
+            <dt className="text-gray-500">{t('moon.moonset')}</dt>
+            <dd className="font-medium text-gray-800">{formatEvent(moon.moonset)}</dd>
+          </dl>
+        </div>
+      </div>
+
+      <p className="mt-3 text-xs text-gray-500">{t('sun.note')}</p>
+    </div>
+  );
+};
+
+export default SunMoonPanel;
@@ -0,0 +1,93 @@
+import React from 'react';
+import { Ruler } from 'lucide-react';
+import { UnitPreferences } from '../types/preferences';
+import { usePreferences } from '../contexts/PreferencesContext';
+import { METRIC_UNITS, IMPERIAL_UNITS, unitLabels } from '../utils/units';
+import { MessageKey } from '../i18n';
+
+// Languages are listed in their own language so they can be found whatever the current one is
+const localeOptions = [
+  { value: 'en-GB', label: 'English (UK)' },
+  { value: 'en-US', label: 'English (US)' },
+  { value: 'de-DE', label: 'Deutsch' },
+  { value: 'fr-FR', label: 'Français' },
+  { value: 'es-ES', label: 'Español' }
+];
+
+const unitFields: Array<{ key: keyof UnitPreferences; label: MessageKey }> = [
+  { key: 'temperature', label: 'units.temperature' },
+  { key: 'windSpeed', label: 'units.windSpeed' },
+  { key: 'pressure', label: 'units.pressure' },
+  { key: 'distance', label: 'units.distance' },
+  { key: 'precipitation', label: 'units.precipitation' }
+];
+
+const UnitPreferencesPanel: React.FC = () => {
+  const { preferences, updatePreferences, t } = usePreferences();
+
+  const setUnit = (key: keyof UnitPreferences, value: string) => {
+    updatePreferences({ units: { ...preferences.units, [key]: value } });
+  };
+
+  const selectClassName = 'w-full px-3 py-2 rounded-lg border border-gray-200 focus:border-blue-500 focus:ring-2 focus:ring-blue-200 text-gray-800 text-sm';
+
+  return (
+    <div className="w-full max-w-3xl mx-auto mb-8 bg-white/90 backdrop-blur-sm rounded-xl p-6 shadow-lg border border-gray-200">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Ruler className="w-5 h-5 text-blue-500" />
+          <h2 className="text-lg font-semibold text-gray-800">{t('units.title')}</h2>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => updatePreferences({ units: METRIC_UNITS })}
+            className="text-sm bg-gray-100 text-gray-700 px-3 py-1 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            {t('units.metric')}
+          </button>
+          <button
+            onClick={() => updatePreferences({ units: IMPERIAL_UNITS })}
+            className="text-sm bg-gray-100 text-gray-700 px-3 py-1 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            {t('units.imperial')}
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+        {unitFields.map(({ key, label }) => (
+          <label key={key} className="text-sm text-gray-600">
+            {t(label)}
+            <select
+              value={preferences.units[key]}
+              onChange={(e) => setUnit(key, e.target.value)}
+              className={`mt-1 ${selectClassName}`}
+            >
+              {Object.entries(unitLabels[key]).map(([value, unitLabel]) => (
+                <option key={value} value={value}>
+                  {value === 'beaufort' ? t('units.beaufort') : unitLabel}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+
+        <label className="text-sm text-gray-600">
+          {t('units.language')}
+          <select
+            value={preferences.locale}
+            onChange={(e) => updatePreferences({ locale: e.target.value })}
+            className={`mt-1 ${selectClassName}`}
+          >
+            <option value="auto">{t('units.browserDefault')}</option>
+            {localeOptions.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default UnitPreferencesPanel;
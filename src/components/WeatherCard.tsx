@@ -9,17 +9,47 @@ import {
   CloudSnow,
   Eye,
   Gauge,
-  Navigation
+  Navigation,
+  AlertTriangle,
+  ShieldAlert,
+  Sunrise,
+  Sunset
 } from 'lucide-react';
-import { ProcessedWeatherData } from '../types/weather';
+import { ProcessedWeatherData, WeatherAlert } from '../types/weather';
+import { AlertMatch } from '../types/alerts';
+import { DayAstronomy } from '../types/astronomy';
+import { MOON_PHASE_EMOJI } from '../utils/astronomy';
+import { describeAlertRule, formatMetricValue } from '../utils/alerts';
 import { getWeatherIcon } from '../utils/weatherApi';
+import { translateCondition } from '../i18n';
+import { usePreferences } from '../contexts/PreferencesContext';
 
 interface WeatherCardProps {
   weather: ProcessedWeatherData;
   isToday?: boolean;
+  isSelected?: boolean;
+  // Threshold rules met on this day
+  alerts?: AlertMatch[];
+  // Warnings from the provider in force on this day
+  officialAlerts?: WeatherAlert[];
+  // Sun and moon for the day, with the location's UTC offset to show times in
+  astronomy?: DayAstronomy;
+  utcOffset?: number;
+  onClick?: () => void;
 }
 
-const WeatherCard: React.FC<WeatherCardProps> = ({ weather, isToday = false }) => {
+const WeatherCard: React.FC<WeatherCardProps> = ({
+  weather,
+  isToday = false,
+  isSelected = false,
+  alerts = [],
+  officialAlerts = [],
+  astronomy,
+  utcOffset = 0,
+  onClick
+}) => {
+  const { format, language, t } = usePreferences();
+
   const getLucideIcon = () => {
     switch (weather.condition.toLowerCase()) {
       case 'clear':
@@ -67,24 +97,64 @@ const WeatherCard: React.FC<WeatherCardProps> = ({ weather, isToday = false }) =
     return isToday ? 'text-white/90' : 'text-gray-600';
   };
 
-  const formatDate = () => {
-    const date = new Date(weather.date);
-    return `${date.toString().slice(0, 3)} ${date.toString().slice(4, 7)} ${date.getDate()}`;
+  const formatDate = () => format.date(weather.date, { weekday: 'short', month: 'short', day: 'numeric' });
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (onClick && (e.key === 'Enter' || e.key === ' ')) {
+      e.preventDefault();
+      onClick();
+    }
   };
 
   return (
-    <div className={`
+    <div
+      onClick={onClick}
+      onKeyDown={handleKeyDown}
+      role={onClick ? 'button' : undefined}
+      tabIndex={onClick ? 0 : undefined}
+      aria-pressed={onClick ? isSelected : undefined}
+      className={`
       ${isToday ? 'col-span-full lg:col-span-2' : ''} 
       ${getBackgroundGradient()} 
       ${isToday ? '' : 'bg-white/80 backdrop-blur-sm'} 
       rounded-xl p-6 shadow-lg hover:shadow-xl transition-all duration-200 border 
       ${isToday ? 'border-transparent' : 'border-gray-200'}
+      ${onClick ? 'cursor-pointer' : ''}
+      ${isSelected ? 'ring-4 ring-white/80' : ''}
     `}>
+      {/* Alerts */}
+      {(officialAlerts.length > 0 || alerts.length > 0) && (
+        <div className="space-y-1 mb-4">
+          {officialAlerts.map(alert => (
+            <div
+              key={`${alert.event}-${alert.start}`}
+              title={alert.description}
+              className="flex items-center gap-2 bg-red-600 text-white text-sm font-medium rounded-lg px-3 py-1.5"
+            >
+              <ShieldAlert className="w-4 h-4 flex-shrink-0" />
+              {t('alerts.official', { event: alert.event, sender: alert.sender_name })}
+            </div>
+          ))}
+          {alerts.map(match => (
+            <div
+              key={match.rule.id}
+              className="flex items-center gap-2 bg-amber-100 text-amber-900 border border-amber-300 text-sm font-medium rounded-lg px-3 py-1.5"
+            >
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              {t('alerts.match', {
+                rule: describeAlertRule(match.rule, format, t),
+                value: formatMetricValue(match.rule.metric, match.value, format)
+              })}
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Header */}
       <div className="flex justify-between items-start mb-4">
         <div>
           <h3 className={`text-lg font-semibold ${getTextColor()}`}>
-            {isToday ? 'Today' : weather.dayOfWeek}
+            {isToday ? t('card.today') : format.date(weather.date, { weekday: 'long' })}
           </h3>
           <p className={`text-sm ${getSecondaryTextColor()}`}>
             {formatDate()}
@@ -100,16 +170,16 @@ const WeatherCard: React.FC<WeatherCardProps> = ({ weather, isToday = false }) =
       <div className="mb-4">
         <div className="flex items-baseline gap-2">
           <span className={`text-3xl font-bold ${getTextColor()}`}>
-            {weather.temperature}°C
+            {format.temperature(weather.temperature)}
           </span>
           {!isToday && (
             <span className={`text-lg ${getSecondaryTextColor()}`}>
-              {weather.tempMin}°/{weather.tempMax}°
+              {format.temperatureShort(weather.tempMin)}/{format.temperatureShort(weather.tempMax)}
             </span>
           )}
         </div>
         <p className={`text-sm ${getSecondaryTextColor()} mt-1 capitalize`}>
-          {weather.description}
+          {translateCondition(language, weather.conditionId, weather.description)}
         </p>
       </div>
 
@@ -118,7 +188,7 @@ const WeatherCard: React.FC<WeatherCardProps> = ({ weather, isToday = false }) =
         <div className="flex items-center gap-2">
           <Droplets className={`w-4 h-4 ${isToday ? 'text-white/80' : 'text-blue-500'}`} />
           <div>
-            <p className={`text-xs ${getSecondaryTextColor()}`}>Humidity</p>
+            <p className={`text-xs ${getSecondaryTextColor()}`}>{t('card.humidity')}</p>
             <p className={`text-sm font-medium ${getTextColor()}`}>{weather.humidity}%</p>
           </div>
         </div>
@@ -126,10 +196,15 @@ const WeatherCard: React.FC<WeatherCardProps> = ({ weather, isToday = false }) =
         <div className="flex items-center gap-2">
           <Wind className={`w-4 h-4 ${isToday ? 'text-white/80' : 'text-gray-500'}`} />
           <div>
-            <p className={`text-xs ${getSecondaryTextColor()}`}>Wind</p>
+            <p className={`text-xs ${getSecondaryTextColor()}`}>{t('card.wind')}</p>
             <p className={`text-sm font-medium ${getTextColor()}`}>
-              {weather.windSpeed} km/h {weather.windDirection}
+              {format.windSpeed(weather.windSpeed)} {weather.windDirection}
             </p>
+            {format.windSpeed(weather.windGust) !== format.windSpeed(weather.windSpeed) && (
+              <p className={`text-xs ${getSecondaryTextColor()}`}>
+                {t('card.gusts', { speed: format.windSpeed(weather.windGust) })}
+              </p>
+            )}
           </div>
         </div>
 
@@ -138,16 +213,16 @@ const WeatherCard: React.FC<WeatherCardProps> = ({ weather, isToday = false }) =
             <div className="flex items-center gap-2">
               <Gauge className="w-4 h-4 text-white/80" />
               <div>
-                <p className="text-xs text-white/90">Pressure</p>
-                <p className="text-sm font-medium text-white">{weather.pressure} hPa</p>
+                <p className="text-xs text-white/90">{t('card.pressure')}</p>
+                <p className="text-sm font-medium text-white">{format.pressure(weather.pressure)}</p>
               </div>
             </div>
             
             <div className="flex items-center gap-2">
               <Eye className="w-4 h-4 text-white/80" />
               <div>
-                <p className="text-xs text-white/90">Visibility</p>
-                <p className="text-sm font-medium text-white">{weather.visibility} km</p>
+                <p className="text-xs text-white/90">{t('card.visibility')}</p>
+                <p className="text-sm font-medium text-white">{format.distance(weather.visibility)}</p>
               </div>
             </div>
           </>
@@ -157,14 +232,46 @@ const WeatherCard: React.FC<WeatherCardProps> = ({ weather, isToday = false }) =
           <div className="flex items-center gap-2 col-span-2">
             <CloudRain className={`w-4 h-4 ${isToday ? 'text-white/80' : 'text-blue-500'}`} />
             <div>
-              <p className={`text-xs ${getSecondaryTextColor()}`}>Precipitation</p>
+              <p className={`text-xs ${getSecondaryTextColor()}`}>{t('card.precipitation')}</p>
               <p className={`text-sm font-medium ${getTextColor()}`}>
-                {weather.precipitation.toFixed(1)}mm ({weather.precipitationType})
+                {format.precipitation(weather.precipitation)} ({t(`precipitation.${weather.precipitationType}`)}) • {t('card.chance', { pop: weather.pop })}
               </p>
+              {weather.precipitationType === 'mixed' && (
+                <p className={`text-xs ${getSecondaryTextColor()}`}>
+                  {t('card.rainAndSnow', { rain: format.precipitation(weather.rain), snow: format.precipitation(weather.snow) })}
+                </p>
+              )}
             </div>
           </div>
         )}
       </div>
+
+      {/* Sun and Moon */}
+      {astronomy && (
+        <div className={`flex flex-wrap items-center gap-x-4 gap-y-1 mt-4 pt-3 border-t text-sm ${
+          isToday ? 'border-white/30' : 'border-gray-200'
+        } ${getSecondaryTextColor()}`}>
+          {astronomy.sun.sunrise !== null && astronomy.sun.sunset !== null ? (
+            <>
+              <span className="flex items-center gap-1" title={t('sun.sunrise')}>
+                <Sunrise className="w-4 h-4" />
+                {format.time(astronomy.sun.sunrise, utcOffset)}
+              </span>
+              <span className="flex items-center gap-1" title={t('sun.sunset')}>
+                <Sunset className="w-4 h-4" />
+                {format.time(astronomy.sun.sunset, utcOffset)}
+              </span>
+            </>
+          ) : (
+            <span>{t(astronomy.sun.dayLength > 0 ? 'sun.midnightSun' : 'sun.polarNight')}</span>
+          )}
+          <span title={t('sun.dayLength')}>{format.duration(astronomy.sun.dayLength)}</span>
+          <span className="flex items-center gap-1" title={t(`moon.phase.${astronomy.moon.phaseName}`)}>
+            <span aria-hidden="true">{MOON_PHASE_EMOJI[astronomy.moon.phaseName]}</span>
+            {t('moon.illumination', { percent: format.number(astronomy.moon.illumination * 100) })}
+          </span>
+        </div>
+      )}
     </div>
   );
 };
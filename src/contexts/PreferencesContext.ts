@@ -0,0 +1,22 @@
+import { createContext, useContext } from 'react';
+import { Preferences } from '../types/preferences';
+import { Formatter } from '../utils/format';
+import { Language, MessageKey, TranslationParams } from '../i18n';
+
+export interface PreferencesContextValue {
+  preferences: Preferences;
+  updatePreferences: (changes: Partial<Preferences>) => void;
+  format: Formatter;
+  language: Language;
+  t: (key: MessageKey, params?: TranslationParams) => string;
+}
+
+export const PreferencesContext = createContext<PreferencesContextValue | null>(null);
+
+export const usePreferences = (): PreferencesContextValue => {
+  const context = useContext(PreferencesContext);
+  if (!context) {
+    throw new Error('usePreferences must be used inside a PreferencesProvider');
+  }
+  return context;
+};
@@ -0,0 +1,313 @@
+import { MessageKey } from './en';
+
+export const messages: Record<MessageKey, string> = {
+  'app.title': 'Weltweite Wettervorhersage',
+  'app.tagline': 'Genaue Wettervorhersagen für jede Stadt der Welt. Suche auf allen Kontinenten - von Lagos bis Tokio, von New York bis São Paulo, von Kairo bis Sydney. Weltweite Abdeckung mit aktuellen Daten.',
+  'app.settings': 'Einstellungen',
+  'common.tryAgain': 'Erneut versuchen',
+
+  'demo.banner': 'Demo-Modus: Die Vorhersagen sind simuliert und entsprechen nicht dem echten Wetter.',
+  'demo.exit': 'Demo-Modus beenden',
+
+  'offline.banner': 'Offline – Daten vom {time}',
+
+  'alerts.title': 'Wetterwarnungen',
+  'alerts.hint': 'Vorhersagetage, die eine Regel erfüllen, werden auf ihren Karten markiert. Für gespeicherte Orte gibt es auch Benachrichtigungen.',
+  'alerts.above': '{metric} über {threshold}',
+  'alerts.below': '{metric} unter {threshold}',
+  'alerts.comparison.above': 'über',
+  'alerts.comparison.below': 'unter',
+  'alerts.metric.windSpeed': 'Wind',
+  'alerts.metric.windGust': 'Böen',
+  'alerts.metric.tempMin': 'Tiefsttemperatur',
+  'alerts.metric.tempMax': 'Höchsttemperatur',
+  'alerts.metric.precipitation': 'Niederschlag',
+  'alerts.metric.pop': 'Niederschlagswahrscheinlichkeit',
+  'alerts.enabled': 'Aktiv',
+  'alerts.threshold': 'Schwellenwert',
+  'alerts.add': 'Regel hinzufügen',
+  'alerts.remove': 'Regel entfernen',
+  'alerts.reset': 'Standard wiederherstellen',
+  'alerts.notifications.enable': 'Für gespeicherte Orte benachrichtigen',
+  'alerts.notifications.enabled': 'Benachrichtigungen für gespeicherte Orte sind aktiv.',
+  'alerts.notifications.blocked': 'Benachrichtigungen sind für diese Seite in den Browsereinstellungen blockiert.',
+  'alerts.notifications.unsupported': 'Dieser Browser unterstützt keine Benachrichtigungen.',
+  'alerts.match': '{rule} ({value})',
+  'alerts.official': '{event} — {sender}',
+  'alerts.notificationTitle': '{city}: Wetterwarnung',
+  'alerts.count': '{count} Warnungen',
+
+  'provider.label': 'Datenquelle',
+
+  'forecast.updated': 'Aktualisiert: {time}',
+  'forecast.refresh': 'Aktualisieren',
+  'forecast.localTime': 'Ortszeit {time} ({offset})',
+  'forecast.withViewerTime': '{time} (Ihre Zeit {viewerTime})',
+  'forecast.showViewerTime': 'Auch meine Ortszeit anzeigen',
+  'forecast.dataSource': 'Wetterdaten werden alle 3 Stunden aktualisiert • Bereitgestellt von {source}',
+  'forecast.noData': 'Für diesen Ort sind keine Wetterdaten verfügbar.',
+  'forecast.loading': 'Wetterdaten werden geladen...',
+
+  'view.daily': 'Täglich',
+  'view.hourly': 'Stündlich',
+  'view.astro': 'Sterne',
+  'view.report': 'Bericht',
+  'share.copy': 'Link kopieren',
+  'share.copied': 'Link kopiert',
+
+  'export.button': 'Exportieren',
+  'export.format.daily-csv': 'Tagesvorhersage (CSV)',
+  'export.format.daily-json': 'Tagesvorhersage (JSON)',
+  'export.format.hourly-csv': '3-Stunden-Daten (CSV)',
+  'export.format.hourly-json': '3-Stunden-Daten (JSON)',
+  'export.format.ics': 'Kalendertermine (.ics)',
+  'export.calendarName': 'Wetter – {city}',
+  'export.calendarSource': 'Vorhersage von {source}',
+
+  'report.title': 'Wetterbericht für {days} Tage',
+  'report.print': 'Drucken / Als PDF speichern',
+  'report.day': 'Tag',
+  'report.conditions': 'Wetter',
+  'report.highLow': 'Max. / Min.',
+  'report.sun': 'Sonnenauf- und -untergang',
+  'report.generated': 'Erstellt {time}',
+  'report.source': 'Vorhersage von {source}, abgerufen {time}',
+
+  'region.africa': 'Afrika',
+  'region.asia': 'Asien',
+  'region.europe': 'Europa',
+  'region.americas': 'Amerika',
+  'region.northAmerica': 'Nordamerika',
+  'region.southAmerica': 'Südamerika',
+  'region.oceania': 'Ozeanien',
+  'region.unknown': 'Unbekannt',
+
+  'features.realtime.title': 'Aktuelle Daten',
+  'features.realtime.text': 'Die Wetterdaten werden alle 3 Stunden aktualisiert – für hohe Genauigkeit in allen Zeitzonen.',
+  'features.search.title': 'Intelligente Suche',
+  'features.search.text': 'Autovervollständigung mit einer weltweiten Datenbank aus Tausenden von Orten.',
+  'features.detailed.title': 'Detaillierte Vorhersagen',
+  'features.detailed.text': '7-Tage-Vorhersagen mit Temperatur, Luftfeuchtigkeit, Wind, Luftdruck und Niederschlag.',
+
+  'footer.poweredBy': 'Weltweite Wettervorhersage • Bereitgestellt von {source} • Über 200 Länder',
+  'footer.copyright': '© 2024 Global Weather App • Weltweite Abdeckung in Afrika, Asien, Europa, Amerika und Ozeanien',
+
+  'search.placeholder': 'Eine beliebige Stadt suchen... (z. B. Lagos, Kairo, Tokio, New York, São Paulo)',
+  'search.advanced': '🔍 Erweiterte weltweite Suche',
+  'search.unavailable': 'Städtesuche nicht verfügbar',
+  'search.noResults': 'Keine Städte gefunden für „{query}“',
+  'search.trySearching': 'Versuchen Sie zum Beispiel:',
+  'search.hintMajor': '• Großstädte: London, Tokio, New York, São Paulo',
+  'search.hintAfrica': '• Afrikanische Städte: Lagos, Kairo, Nairobi, Kapstadt',
+  'search.hintAsia': '• Asiatische Städte: Mumbai, Bangkok, Jakarta, Manila',
+  'search.hintLocal': '• Oder einen Ortsnamen in Ihrer Sprache',
+  'search.coordinates': 'Koordinaten: {coordinates}',
+  'search.coverageTitle': '🌍 Weltweite Abdeckung',
+  'search.coverageText': 'Suchen Sie Städte auf allen Kontinenten. Die App nutzt die umfangreiche weltweite Datenbank von OpenWeatherMap mit Tausenden von Städten.',
+
+  'search.useLocation': 'Meinen Standort verwenden',
+  'search.locating': 'Standort wird ermittelt...',
+  'geolocation.denied': 'Der Standortzugriff wurde verweigert. Erlauben Sie ihn in den Browsereinstellungen oder geben Sie Koordinaten wie „48.85, 2.35“ ein.',
+  'geolocation.timeout': 'Die Standortbestimmung hat zu lange gedauert. Versuchen Sie es erneut oder geben Sie Koordinaten wie „48.85, 2.35“ ein.',
+  'geolocation.unavailable': 'Ihr Standort ist derzeit nicht verfügbar. Versuchen Sie es erneut oder geben Sie Koordinaten wie „48.85, 2.35“ ein.',
+  'geolocation.unsupported': 'Dieser Browser kann Ihren Standort nicht teilen. Geben Sie stattdessen Koordinaten wie „48.85, 2.35“ ein.',
+
+  'favorites.title': 'Favoriten',
+  'favorites.add': 'Zu Favoriten hinzufügen',
+  'favorites.remove': 'Aus Favoriten entfernen',
+  'favorites.rename': 'Umbenennen',
+  'favorites.reorderHint': 'Kacheln zum Sortieren ziehen',
+  'favorites.unavailable': 'Vorhersage nicht verfügbar',
+
+  'compare.title': 'Städtevergleich',
+  'compare.open': 'Städte vergleichen',
+  'compare.close': 'Zurück zur Vorhersage',
+  'compare.hint': 'Fügen Sie über die Suche oben {min} bis {max} Städte hinzu.',
+  'compare.needMore': 'Fügen Sie mindestens eine weitere Stadt hinzu, um zu vergleichen.',
+  'compare.full': 'Der Vergleich ist voll ({max} Städte).',
+  'compare.date': 'Datum',
+  'compare.warmest': 'Am wärmsten',
+  'compare.wettest': 'Am nassesten',
+  'compare.windiest': 'Am windigsten',
+  'compare.remove': '{city} aus dem Vergleich entfernen',
+  'compare.clear': 'Alle entfernen',
+  'compare.noData': 'Keine Daten',
+
+  'card.today': 'Heute',
+  'card.humidity': 'Luftfeuchtigkeit',
+  'card.wind': 'Wind',
+  'card.gusts': 'Böen {speed}',
+  'card.pressure': 'Luftdruck',
+  'card.visibility': 'Sichtweite',
+  'card.precipitation': 'Niederschlag',
+  'card.chance': '{pop}% Wahrscheinlichkeit',
+  'card.rainAndSnow': 'Regen {rain} • Schnee {snow}',
+
+  'precipitation.rain': 'Regen',
+  'precipitation.snow': 'Schnee',
+  'precipitation.mixed': 'Regen und Schnee',
+  'precipitation.none': 'keiner',
+
+  'hourly.title': '3-Stunden-Vorhersage',
+  'hourly.showAll': 'Alle Tage anzeigen',
+  'hourly.feelsLike': 'Gefühlt {temperature}',
+  'hourly.pop': 'Niederschlagswahrscheinlichkeit',
+  'hourly.viewerTime': 'Ihre Ortszeit',
+
+  'charts.title': 'Vorhersagediagramme',
+  'charts.hint': 'Für Details darüberfahren, Tag zum Auswählen anklicken',
+  'charts.hintReadOnly': 'Für Details darüberfahren',
+  'charts.temperature': 'Temperatur',
+  'charts.feelsLike': 'Gefühlt',
+  'charts.precipitation': 'Niederschlag',
+  'charts.pop': 'Wahrscheinlichkeit',
+  'charts.wind': 'Wind',
+  'charts.pressure': 'Luftdruck',
+  'charts.trend.rising': 'Steigend',
+  'charts.trend.falling': 'Fallend',
+  'charts.trend.steady': 'Gleichbleibend',
+
+  'sun.title': 'Sonne und Mond, {date}',
+  'sun.sun': 'Sonne',
+  'sun.sunrise': 'Sonnenaufgang',
+  'sun.sunset': 'Sonnenuntergang',
+  'sun.solarNoon': 'Sonnenhöchststand',
+  'sun.dayLength': 'Tageslänge',
+  'sun.midnightSun': 'Sonne den ganzen Tag über dem Horizont',
+  'sun.polarNight': 'Sonne den ganzen Tag unter dem Horizont',
+  'sun.twilight': 'Dämmerung',
+  'sun.dawn': 'Morgens',
+  'sun.dusk': 'Abends',
+  'sun.civil': 'Bürgerlich',
+  'sun.nautical': 'Nautisch',
+  'sun.astronomical': 'Astronomisch',
+  'sun.note': 'Berechnet für die Koordinaten des Ortes. Zeiten sind Ortszeit; — bedeutet, dass Sonne oder Mond diesen Punkt heute nicht erreichen.',
+  'moon.moon': 'Mond',
+  'moon.moonrise': 'Mondaufgang',
+  'moon.moonset': 'Monduntergang',
+  'moon.illumination': '{percent} % beleuchtet',
+  'moon.phase.new': 'Neumond',
+  'moon.phase.waxingCrescent': 'Zunehmende Sichel',
+  'moon.phase.firstQuarter': 'Erstes Viertel',
+  'moon.phase.waxingGibbous': 'Zunehmender Mond',
+  'moon.phase.full': 'Vollmond',
+  'moon.phase.waningGibbous': 'Abnehmender Mond',
+  'moon.phase.lastQuarter': 'Letztes Viertel',
+  'moon.phase.waningCrescent': 'Abnehmende Sichel',
+
+  'astro.title': 'Sternbeobachtung',
+  'astro.source': 'Daten: 7Timer! ASTRO',
+  'astro.bestWindow': 'Bestes Beobachtungsfenster: {window} ({rating})',
+  'astro.noWindow': 'Kein mittleres oder gutes Beobachtungsfenster in der Vorhersage.',
+  'astro.noNights': 'Keine Nachtdaten für diesen Ort.',
+  'astro.unavailable': 'Die Sternbeobachtungsvorhersage konnte nicht geladen werden.',
+  'astro.night': 'Nacht vom {date}',
+  'astro.rating.good': 'Gut',
+  'astro.rating.fair': 'Mittel',
+  'astro.rating.poor': 'Schlecht',
+  'astro.time': 'Zeit',
+  'astro.cloudCover': 'Wolken',
+  'astro.seeing': 'Seeing',
+  'astro.transparency': 'Transparenz',
+  'astro.liftedIndex': 'Lifted Index',
+  'astro.sky': 'Himmel',
+  'astro.precipitation': 'Niederschlag',
+  'astro.inBestWindow': 'Im besten Beobachtungsfenster',
+  'astro.legend': 'Seeing ist die Unschärfe der Sterne in Bogensekunden, Transparenz die Extinktion in mag/Luftmasse; bei beiden ist weniger besser. Ein stark negativer Lifted Index warnt vor Quellbewölkung.',
+
+  'error.auth.title': 'Problem mit dem API-Schlüssel',
+  'error.auth.guidance': 'Prüfen Sie Ihren OpenWeatherMap-API-Schlüssel in den Einstellungen. Neue Schlüssel können bis zu zwei Stunden bis zur Aktivierung brauchen.',
+  'error.rate-limit.title': 'Zu viele Anfragen',
+  'error.rate-limit.guidance': 'Das Anfragelimit dieser Datenquelle ist erreicht. Warten Sie eine Minute und versuchen Sie es erneut.',
+  'error.network.title': 'Verbindungsproblem',
+  'error.network.guidance': 'Prüfen Sie Ihre Internetverbindung und versuchen Sie es erneut.',
+  'error.bad-response.title': 'Unerwartete Antwort',
+  'error.bad-response.guidance': 'Der Wetterdienst hat unlesbare Daten geliefert. Versuchen Sie es später erneut oder wechseln Sie die Datenquelle.',
+  'error.not-found.title': 'Keine Daten für diesen Ort',
+  'error.not-found.guidance': 'Versuchen Sie eine Stadt in der Nähe oder eine andere Datenquelle.',
+  'error.retryAfter': 'Erneut versuchen in etwa {seconds} Sekunden.',
+  'error.useDemo': 'Demo-Modus verwenden',
+
+  'settings.apiKey.title': 'OpenWeatherMap-API-Schlüssel',
+  'settings.apiKey.fromEnv': 'Schlüssel {key} aus der Umgebungsvariable VITE_OPENWEATHERMAP_API_KEY wird verwendet.',
+  'settings.apiKey.fromBrowser': 'Schlüssel {key} aus diesem Browser wird verwendet.',
+  'settings.apiKey.none': 'Kein API-Schlüssel eingerichtet. Einen kostenlosen Schlüssel gibt es unter openweathermap.org/api.',
+  'settings.apiKey.placeholder': 'API-Schlüssel einfügen',
+  'settings.apiKey.save': 'Testen & Speichern',
+  'settings.apiKey.clear': 'Entfernen',
+  'settings.apiKey.valid': 'Schlüssel akzeptiert und gespeichert.',
+  'settings.apiKey.invalid': 'Schlüssel von OpenWeatherMap abgelehnt (401). Neue Schlüssel können bis zu zwei Stunden bis zur Aktivierung brauchen.',
+  'settings.apiKey.rateLimited': 'Schlüssel erkannt, aber derzeit begrenzt (429). Er wurde gespeichert; versuchen Sie es später erneut.',
+  'settings.apiKey.error': 'OpenWeatherMap konnte zum Testen nicht erreicht werden. Prüfen Sie Ihre Verbindung und versuchen Sie es erneut.',
+  'settings.close': 'Einstellungen schließen',
+
+  'units.title': 'Einheiten & Sprache',
+  'units.metric': 'Metrisch',
+  'units.imperial': 'Imperial',
+  'units.temperature': 'Temperatur',
+  'units.windSpeed': 'Windgeschwindigkeit',
+  'units.pressure': 'Luftdruck',
+  'units.distance': 'Entfernung',
+  'units.precipitation': 'Niederschlag',
+  'units.beaufort': 'Beaufort',
+  'units.language': 'Sprache',
+  'units.browserDefault': 'Browser-Standard'
+};
+
+export const conditions: Record<number, string> = {
+  200: 'Gewitter mit leichtem Regen',
+  201: 'Gewitter mit Regen',
+  202: 'Gewitter mit starkem Regen',
+  210: 'leichtes Gewitter',
+  211: 'Gewitter',
+  212: 'schweres Gewitter',
+  221: 'vereinzelte Gewitter',
+  230: 'Gewitter mit leichtem Nieselregen',
+  231: 'Gewitter mit Nieselregen',
+  232: 'Gewitter mit starkem Nieselregen',
+  300: 'leichter Nieselregen',
+  301: 'Nieselregen',
+  302: 'starker Nieselregen',
+  310: 'leichter Nieselregen mit Regen',
+  311: 'Nieselregen mit Regen',
+  312: 'starker Nieselregen mit Regen',
+  313: 'Regenschauer und Nieselregen',
+  314: 'starke Regenschauer und Nieselregen',
+  321: 'Nieselschauer',
+  500: 'leichter Regen',
+  501: 'mäßiger Regen',
+  502: 'starker Regen',
+  503: 'sehr starker Regen',
+  504: 'extremer Regen',
+  511: 'gefrierender Regen',
+  520: 'leichte Regenschauer',
+  521: 'Regenschauer',
+  522: 'starke Regenschauer',
+  531: 'vereinzelte Regenschauer',
+  600: 'leichter Schneefall',
+  601: 'Schneefall',
+  602: 'starker Schneefall',
+  611: 'Schneeregen',
+  612: 'leichte Schneeregenschauer',
+  613: 'Schneeregenschauer',
+  615: 'leichter Regen und Schnee',
+  616: 'Regen und Schnee',
+  620: 'leichte Schneeschauer',
+  621: 'Schneeschauer',
+  622: 'starke Schneeschauer',
+  701: 'Dunst',
+  711: 'Rauch',
+  721: 'Trübung',
+  731: 'Sand- und Staubwirbel',
+  741: 'Nebel',
+  751: 'Sand',
+  761: 'Staub',
+  762: 'Vulkanasche',
+  771: 'Sturmböen',
+  781: 'Tornado',
+  800: 'klarer Himmel',
+  801: 'ein paar Wolken',
+  802: 'aufgelockert bewölkt',
+  803: 'überwiegend bewölkt',
+  804: 'bedeckt'
+};
@@ -0,0 +1,315 @@
+// English is the reference catalog: every other language must provide the same keys
+export const messages = {
+  'app.title': 'Global Weather Forecast',
+  'app.tagline': 'Get accurate weather forecasts for any city worldwide. Search across all continents - from Lagos to Tokyo, New York to São Paulo, Cairo to Sydney. Complete global coverage with real-time data.',
+  'app.settings': 'Settings',
+  'common.tryAgain': 'Try Again',
+
+  'demo.banner': 'Demo mode: forecasts are simulated and do not reflect real weather.',
+  'demo.exit': 'Exit demo mode',
+
+  'offline.banner': 'Offline — data from {time}',
+
+  'alerts.title': 'Weather alerts',
+  'alerts.hint': 'Forecast days that meet a rule are flagged on their cards. Saved locations can also notify you.',
+  'alerts.above': '{metric} above {threshold}',
+  'alerts.below': '{metric} below {threshold}',
+  'alerts.comparison.above': 'above',
+  'alerts.comparison.below': 'below',
+  'alerts.metric.windSpeed': 'Wind',
+  'alerts.metric.windGust': 'Gusts',
+  'alerts.metric.tempMin': 'Low temperature',
+  'alerts.metric.tempMax': 'High temperature',
+  'alerts.metric.precipitation': 'Precipitation',
+  'alerts.metric.pop': 'Chance of precipitation',
+  'alerts.enabled': 'Enabled',
+  'alerts.threshold': 'Threshold',
+  'alerts.add': 'Add rule',
+  'alerts.remove': 'Remove rule',
+  'alerts.reset': 'Restore defaults',
+  'alerts.notifications.enable': 'Notify me about saved locations',
+  'alerts.notifications.enabled': 'Notifications are on for saved locations.',
+  'alerts.notifications.blocked': 'Notifications are blocked for this site in the browser settings.',
+  'alerts.notifications.unsupported': 'This browser does not support notifications.',
+  'alerts.match': '{rule} ({value})',
+  'alerts.official': '{event} — {sender}',
+  'alerts.notificationTitle': '{city}: weather alert',
+  'alerts.count': '{count} alerts',
+
+  'provider.label': 'Data source',
+
+  'forecast.updated': 'Updated: {time}',
+  'forecast.refresh': 'Refresh',
+  'forecast.localTime': 'Local time {time} ({offset})',
+  'forecast.withViewerTime': '{time} (your time {viewerTime})',
+  'forecast.showViewerTime': 'Also show my local time',
+  'forecast.dataSource': 'Weather data updates every 3 hours • Powered by {source}',
+  'forecast.noData': 'No weather data available for this location.',
+  'forecast.loading': 'Loading weather data...',
+
+  'view.daily': 'Daily',
+  'view.hourly': 'Hourly',
+  'view.astro': 'Stargazing',
+  'view.report': 'Report',
+  'share.copy': 'Copy link',
+  'share.copied': 'Link copied',
+
+  'export.button': 'Export',
+  'export.format.daily-csv': 'Daily forecast (CSV)',
+  'export.format.daily-json': 'Daily forecast (JSON)',
+  'export.format.hourly-csv': '3-hourly data (CSV)',
+  'export.format.hourly-json': '3-hourly data (JSON)',
+  'export.format.ics': 'Calendar events (.ics)',
+  'export.calendarName': 'Weather – {city}',
+  'export.calendarSource': 'Forecast from {source}',
+
+  'report.title': '{days}-day weather report',
+  'report.print': 'Print / Save as PDF',
+  'report.day': 'Day',
+  'report.conditions': 'Conditions',
+  'report.highLow': 'High / Low',
+  'report.sun': 'Sunrise – Sunset',
+  'report.generated': 'Generated {time}',
+  'report.source': 'Forecast from {source}, fetched {time}',
+
+  'region.africa': 'Africa',
+  'region.asia': 'Asia',
+  'region.europe': 'Europe',
+  'region.americas': 'Americas',
+  'region.northAmerica': 'North America',
+  'region.southAmerica': 'South America',
+  'region.oceania': 'Oceania',
+  'region.unknown': 'Unknown',
+
+  'features.realtime.title': 'Real-time Updates',
+  'features.realtime.text': 'Weather data updates every 3 hours for maximum accuracy across all time zones.',
+  'features.search.title': 'Smart Search',
+  'features.search.text': 'Intelligent autocomplete with global city database covering thousands of locations.',
+  'features.detailed.title': 'Detailed Forecasts',
+  'features.detailed.text': '7-day forecasts with temperature, humidity, wind, pressure, and precipitation data.',
+
+  'footer.poweredBy': 'Global Weather Forecast • Powered by {source} • Covering 200+ Countries',
+  'footer.copyright': '© 2024 Global Weather App • Complete worldwide coverage including Africa, Asia, Europe, Americas & Oceania',
+
+  'search.placeholder': 'Search for any city worldwide... (e.g., Lagos, Cairo, Tokyo, New York, São Paulo)',
+  'search.advanced': '🔍 Advanced Global Search',
+  'search.unavailable': 'City search unavailable',
+  'search.noResults': 'No cities found for "{query}"',
+  'search.trySearching': 'Try searching for:',
+  'search.hintMajor': '• Major cities: London, Tokyo, New York, São Paulo',
+  'search.hintAfrica': '• African cities: Lagos, Cairo, Nairobi, Cape Town',
+  'search.hintAsia': '• Asian cities: Mumbai, Bangkok, Jakarta, Manila',
+  'search.hintLocal': '• Or any city name in your local language',
+  'search.coordinates': 'Coordinates: {coordinates}',
+  'search.coverageTitle': '🌍 Complete Global Coverage',
+  'search.coverageText': "Search for cities from all continents. The app uses OpenWeatherMap's comprehensive global database with thousands of cities worldwide.",
+
+  'search.useLocation': 'Use my location',
+  'search.locating': 'Finding your location...',
+  'geolocation.denied': 'Location access was denied. Allow it in your browser settings, or type coordinates such as "48.85, 2.35".',
+  'geolocation.timeout': 'Finding your location took too long. Try again, or type coordinates such as "48.85, 2.35".',
+  'geolocation.unavailable': 'Your location is currently unavailable. Try again, or type coordinates such as "48.85, 2.35".',
+  'geolocation.unsupported': 'This browser cannot share your location. Type coordinates such as "48.85, 2.35" instead.',
+
+  'favorites.title': 'Favorites',
+  'favorites.add': 'Add to favorites',
+  'favorites.remove': 'Remove from favorites',
+  'favorites.rename': 'Rename',
+  'favorites.reorderHint': 'Drag tiles to reorder',
+  'favorites.unavailable': 'Forecast unavailable',
+
+  'compare.title': 'City Comparison',
+  'compare.open': 'Compare cities',
+  'compare.close': 'Back to forecast',
+  'compare.hint': 'Search above to add between {min} and {max} cities.',
+  'compare.needMore': 'Add at least one more city to start comparing.',
+  'compare.full': 'The comparison is full ({max} cities).',
+  'compare.date': 'Date',
+  'compare.warmest': 'Warmest',
+  'compare.wettest': 'Wettest',
+  'compare.windiest': 'Windiest',
+  'compare.remove': 'Remove {city} from comparison',
+  'compare.clear': 'Clear all',
+  'compare.noData': 'No data',
+
+  'card.today': 'Today',
+  'card.humidity': 'Humidity',
+  'card.wind': 'Wind',
+  'card.gusts': 'Gusts {speed}',
+  'card.pressure': 'Pressure',
+  'card.visibility': 'Visibility',
+  'card.precipitation': 'Precipitation',
+  'card.chance': '{pop}% chance',
+  'card.rainAndSnow': 'Rain {rain} • Snow {snow}',
+
+  'precipitation.rain': 'rain',
+  'precipitation.snow': 'snow',
+  'precipitation.mixed': 'rain and snow',
+  'precipitation.none': 'none',
+
+  'hourly.title': '3-Hour Forecast',
+  'hourly.showAll': 'Show all days',
+  'hourly.feelsLike': 'Feels {temperature}',
+  'hourly.pop': 'Chance of precipitation',
+  'hourly.viewerTime': 'Your local time',
+
+  'charts.title': 'Forecast charts',
+  'charts.hint': 'Hover for details, click a day to select it',
+  'charts.hintReadOnly': 'Hover for details',
+  'charts.temperature': 'Temperature',
+  'charts.feelsLike': 'Feels like',
+  'charts.precipitation': 'Precipitation',
+  'charts.pop': 'Chance',
+  'charts.wind': 'Wind',
+  'charts.pressure': 'Pressure',
+  'charts.trend.rising': 'Rising',
+  'charts.trend.falling': 'Falling',
+  'charts.trend.steady': 'Steady',
+
+  'sun.title': 'Sun and moon, {date}',
+  'sun.sun': 'Sun',
+  'sun.sunrise': 'Sunrise',
+  'sun.sunset': 'Sunset',
+  'sun.solarNoon': 'Solar noon',
+  'sun.dayLength': 'Day length',
+  'sun.midnightSun': 'Sun up all day',
+  'sun.polarNight': 'Sun down all day',
+  'sun.twilight': 'Twilight',
+  'sun.dawn': 'Dawn',
+  'sun.dusk': 'Dusk',
+  'sun.civil': 'Civil',
+  'sun.nautical': 'Nautical',
+  'sun.astronomical': 'Astronomical',
+  'sun.note': 'Calculated for the location\'s coordinates. Times are local; — means the sun or moon does not reach that point today.',
+  'moon.moon': 'Moon',
+  'moon.moonrise': 'Moonrise',
+  'moon.moonset': 'Moonset',
+  'moon.illumination': '{percent}% lit',
+  'moon.phase.new': 'New moon',
+  'moon.phase.waxingCrescent': 'Waxing crescent',
+  'moon.phase.firstQuarter': 'First quarter',
+  'moon.phase.waxingGibbous': 'Waxing gibbous',
+  'moon.phase.full': 'Full moon',
+  'moon.phase.waningGibbous': 'Waning gibbous',
+  'moon.phase.lastQuarter': 'Last quarter',
+  'moon.phase.waningCrescent': 'Waning crescent',
+
+  'astro.title': 'Stargazing forecast',
+  'astro.source': 'Data: 7Timer! ASTRO',
+  'astro.bestWindow': 'Best observing window: {window} ({rating})',
+  'astro.noWindow': 'No fair or good observing window in the forecast.',
+  'astro.noNights': 'No night-time data for this location.',
+  'astro.unavailable': 'the stargazing forecast could not be loaded.',
+  'astro.night': 'Night of {date}',
+  'astro.rating.good': 'Good',
+  'astro.rating.fair': 'Fair',
+  'astro.rating.poor': 'Poor',
+  'astro.time': 'Time',
+  'astro.cloudCover': 'Cloud',
+  'astro.seeing': 'Seeing',
+  'astro.transparency': 'Transparency',
+  'astro.liftedIndex': 'Lifted index',
+  'astro.sky': 'Sky',
+  'astro.precipitation': 'Precipitation',
+  'astro.inBestWindow': 'In the best observing window',
+  'astro.legend': 'Seeing is the blur of stars in arcseconds, transparency the extinction in mag/airmass; lower is better for both. A strongly negative lifted index warns of convective cloud.',
+
+  'error.auth.title': 'API Key Problem',
+  'error.auth.guidance': 'Check your OpenWeatherMap API key in Settings. New keys can take up to two hours to activate.',
+  'error.rate-limit.title': 'Too Many Requests',
+  'error.rate-limit.guidance': 'The request limit for this data source has been reached. Wait a minute before trying again.',
+  'error.network.title': 'Connection Problem',
+  'error.network.guidance': 'Check your internet connection and try again.',
+  'error.bad-response.title': 'Unexpected Response',
+  'error.bad-response.guidance': 'The weather service returned data that could not be read. Try again later or switch data source.',
+  'error.not-found.title': 'No Data For This Location',
+  'error.not-found.guidance': 'Try a nearby city or a different data source.',
+  'error.retryAfter': 'Retry in about {seconds} seconds.',
+  'error.useDemo': 'Use Demo Mode',
+
+  'settings.apiKey.title': 'OpenWeatherMap API Key',
+  'settings.apiKey.fromEnv': 'Using key {key} from the VITE_OPENWEATHERMAP_API_KEY environment variable.',
+  'settings.apiKey.fromBrowser': 'Using key {key} from this browser.',
+  'settings.apiKey.none': 'No API key configured. Get a free key at openweathermap.org/api.',
+  'settings.apiKey.placeholder': 'Paste your API key',
+  'settings.apiKey.save': 'Test & Save',
+  'settings.apiKey.clear': 'Clear',
+  'settings.apiKey.valid': 'Key accepted and saved.',
+  'settings.apiKey.invalid': 'Key rejected by OpenWeatherMap (401). New keys can take up to two hours to activate.',
+  'settings.apiKey.rateLimited': 'Key recognised but currently rate-limited (429). It has been saved; try again later.',
+  'settings.apiKey.error': 'Could not reach OpenWeatherMap to test the key. Check your connection and try again.',
+  'settings.close': 'Close settings',
+
+  'units.title': 'Units & Language',
+  'units.metric': 'Metric',
+  'units.imperial': 'Imperial',
+  'units.temperature': 'Temperature',
+  'units.windSpeed': 'Wind speed',
+  'units.pressure': 'Pressure',
+  'units.distance': 'Distance',
+  'units.precipitation': 'Precipitation',
+  'units.beaufort': 'Beaufort',
+  'units.language': 'Language',
+  'units.browserDefault': 'Browser default'
+};
+
+export type MessageKey = keyof typeof messages;
+
+// Descriptions for OpenWeatherMap condition codes, which every provider maps onto
+export const conditions: Record<number, string> = {
+  200: 'thunderstorm with light rain',
+  201: 'thunderstorm with rain',
+  202: 'thunderstorm with heavy rain',
+  210: 'light thunderstorm',
+  211: 'thunderstorm',
+  212: 'heavy thunderstorm',
+  221: 'ragged thunderstorm',
+  230: 'thunderstorm with light drizzle',
+  231: 'thunderstorm with drizzle',
+  232: 'thunderstorm with heavy drizzle',
+  300: 'light intensity drizzle',
+  301: 'drizzle',
+  302: 'heavy intensity drizzle',
+  310: 'light intensity drizzle rain',
+  311: 'drizzle rain',
+  312: 'heavy intensity drizzle rain',
+  313: 'shower rain and drizzle',
+  314: 'heavy shower rain and drizzle',
+  321: 'shower drizzle',
+  500: 'light rain',
+  501: 'moderate rain',
+  502: 'heavy intensity rain',
+  503: 'very heavy rain',
+  504: 'extreme rain',
+  511: 'freezing rain',
+  520: 'light intensity shower rain',
+  521: 'shower rain',
+  522: 'heavy intensity shower rain',
+  531: 'ragged shower rain',
+  600: 'light snow',
+  601: 'snow',
+  602: 'heavy snow',
+  611: 'sleet',
+  612: 'light shower sleet',
+  613: 'shower sleet',
+  615: 'light rain and snow',
+  616: 'rain and snow',
+  620: 'light shower snow',
+  621: 'shower snow',
+  622: 'heavy shower snow',
+  701: 'mist',
+  711: 'smoke',
+  721: 'haze',
+  731: 'sand/dust whirls',
+  741: 'fog',
+  751: 'sand',
+  761: 'dust',
+  762: 'volcanic ash',
+  771: 'squalls',
+  781: 'tornado',
+  800: 'clear sky',
+  801: 'few clouds',
+  802: 'scattered clouds',
+  803: 'broken clouds',
+  804: 'overcast clouds'
+};
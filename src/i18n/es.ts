@@ -0,0 +1,313 @@
+import { MessageKey } from './en';
+
+export const messages: Record<MessageKey, string> = {
+  'app.title': 'Pronóstico del tiempo mundial',
+  'app.tagline': 'Pronósticos precisos para cualquier ciudad del mundo. Busca en todos los continentes - de Lagos a Tokio, de Nueva York a São Paulo, de El Cairo a Sídney. Cobertura mundial con datos actualizados.',
+  'app.settings': 'Ajustes',
+  'common.tryAgain': 'Reintentar',
+
+  'demo.banner': 'Modo demo: los pronósticos son simulados y no reflejan el tiempo real.',
+  'demo.exit': 'Salir del modo demo',
+
+  'offline.banner': 'Sin conexión — datos del {time}',
+
+  'alerts.title': 'Alertas meteorológicas',
+  'alerts.hint': 'Los días de previsión que cumplen una regla se marcan en su tarjeta. Los lugares guardados también pueden avisarte.',
+  'alerts.above': '{metric} por encima de {threshold}',
+  'alerts.below': '{metric} por debajo de {threshold}',
+  'alerts.comparison.above': 'por encima de',
+  'alerts.comparison.below': 'por debajo de',
+  'alerts.metric.windSpeed': 'Viento',
+  'alerts.metric.windGust': 'Rachas',
+  'alerts.metric.tempMin': 'Temperatura mínima',
+  'alerts.metric.tempMax': 'Temperatura máxima',
+  'alerts.metric.precipitation': 'Precipitación',
+  'alerts.metric.pop': 'Probabilidad de precipitación',
+  'alerts.enabled': 'Activa',
+  'alerts.threshold': 'Umbral',
+  'alerts.add': 'Añadir regla',
+  'alerts.remove': 'Eliminar regla',
+  'alerts.reset': 'Restaurar valores predeterminados',
+  'alerts.notifications.enable': 'Avisarme sobre los lugares guardados',
+  'alerts.notifications.enabled': 'Las notificaciones están activadas para los lugares guardados.',
+  'alerts.notifications.blocked': 'Las notificaciones están bloqueadas para este sitio en la configuración del navegador.',
+  'alerts.notifications.unsupported': 'Este navegador no admite notificaciones.',
+  'alerts.match': '{rule} ({value})',
+  'alerts.official': '{event} — {sender}',
+  'alerts.notificationTitle': '{city}: alerta meteorológica',
+  'alerts.count': '{count} alertas',
+
+  'provider.label': 'Fuente de datos',
+
+  'forecast.updated': 'Actualizado: {time}',
+  'forecast.refresh': 'Actualizar',
+  'forecast.localTime': 'Hora local {time} ({offset})',
+  'forecast.withViewerTime': '{time} (tu hora {viewerTime})',
+  'forecast.showViewerTime': 'Mostrar también mi hora local',
+  'forecast.dataSource': 'Datos actualizados cada 3 horas • Proporcionados por {source}',
+  'forecast.noData': 'No hay datos meteorológicos para esta ubicación.',
+  'forecast.loading': 'Cargando datos meteorológicos...',
+
+  'view.daily': 'Por días',
+  'view.hourly': 'Por horas',
+  'view.astro': 'Estrellas',
+  'view.report': 'Informe',
+  'share.copy': 'Copiar enlace',
+  'share.copied': 'Enlace copiado',
+
+  'export.button': 'Exportar',
+  'export.format.daily-csv': 'Previsión diaria (CSV)',
+  'export.format.daily-json': 'Previsión diaria (JSON)',
+  'export.format.hourly-csv': 'Datos cada 3 horas (CSV)',
+  'export.format.hourly-json': 'Datos cada 3 horas (JSON)',
+  'export.format.ics': 'Eventos de calendario (.ics)',
+  'export.calendarName': 'Tiempo – {city}',
+  'export.calendarSource': 'Previsión de {source}',
+
+  'report.title': 'Informe meteorológico de {days} días',
+  'report.print': 'Imprimir / Guardar como PDF',
+  'report.day': 'Día',
+  'report.conditions': 'Condiciones',
+  'report.highLow': 'Máx. / Mín.',
+  'report.sun': 'Amanecer – Atardecer',
+  'report.generated': 'Generado {time}',
+  'report.source': 'Previsión de {source}, obtenida {time}',
+
+  'region.africa': 'África',
+  'region.asia': 'Asia',
+  'region.europe': 'Europa',
+  'region.americas': 'América',
+  'region.northAmerica': 'América del Norte',
+  'region.southAmerica': 'América del Sur',
+  'region.oceania': 'Oceanía',
+  'region.unknown': 'Desconocido',
+
+  'features.realtime.title': 'Datos actualizados',
+  'features.realtime.text': 'Los datos se actualizan cada 3 horas para una máxima precisión en todas las zonas horarias.',
+  'features.search.title': 'Búsqueda inteligente',
+  'features.search.text': 'Autocompletado con una base de datos mundial de miles de ubicaciones.',
+  'features.detailed.title': 'Pronósticos detallados',
+  'features.detailed.text': 'Pronósticos de 7 días con temperatura, humedad, viento, presión y precipitación.',
+
+  'footer.poweredBy': 'Pronóstico del tiempo mundial • Proporcionado por {source} • Más de 200 países',
+  'footer.copyright': '© 2024 Global Weather App • Cobertura mundial en África, Asia, Europa, América y Oceanía',
+
+  'search.placeholder': 'Busca cualquier ciudad del mundo... (p. ej., Lagos, El Cairo, Tokio, Nueva York, São Paulo)',
+  'search.advanced': '🔍 Búsqueda mundial avanzada',
+  'search.unavailable': 'Búsqueda de ciudades no disponible',
+  'search.noResults': 'No se encontraron ciudades para «{query}»',
+  'search.trySearching': 'Prueba a buscar:',
+  'search.hintMajor': '• Grandes ciudades: Londres, Tokio, Nueva York, São Paulo',
+  'search.hintAfrica': '• Ciudades africanas: Lagos, El Cairo, Nairobi, Ciudad del Cabo',
+  'search.hintAsia': '• Ciudades asiáticas: Bombay, Bangkok, Yakarta, Manila',
+  'search.hintLocal': '• O el nombre de una ciudad en tu idioma',
+  'search.coordinates': 'Coordenadas: {coordinates}',
+  'search.coverageTitle': '🌍 Cobertura mundial',
+  'search.coverageText': 'Busca ciudades de todos los continentes. La aplicación usa la amplia base de datos mundial de OpenWeatherMap con miles de ciudades.',
+
+  'search.useLocation': 'Usar mi ubicación',
+  'search.locating': 'Buscando tu ubicación...',
+  'geolocation.denied': 'Se denegó el acceso a la ubicación. Permítelo en los ajustes del navegador o escribe coordenadas como «48.85, 2.35».',
+  'geolocation.timeout': 'La localización tardó demasiado. Inténtalo de nuevo o escribe coordenadas como «48.85, 2.35».',
+  'geolocation.unavailable': 'Tu ubicación no está disponible ahora mismo. Inténtalo de nuevo o escribe coordenadas como «48.85, 2.35».',
+  'geolocation.unsupported': 'Este navegador no puede compartir tu ubicación. Escribe coordenadas como «48.85, 2.35».',
+
+  'favorites.title': 'Favoritos',
+  'favorites.add': 'Añadir a favoritos',
+  'favorites.remove': 'Quitar de favoritos',
+  'favorites.rename': 'Renombrar',
+  'favorites.reorderHint': 'Arrastra los mosaicos para reordenarlos',
+  'favorites.unavailable': 'Pronóstico no disponible',
+
+  'compare.title': 'Comparación de ciudades',
+  'compare.open': 'Comparar ciudades',
+  'compare.close': 'Volver al pronóstico',
+  'compare.hint': 'Usa la búsqueda de arriba para añadir entre {min} y {max} ciudades.',
+  'compare.needMore': 'Añade al menos una ciudad más para comparar.',
+  'compare.full': 'La comparación está completa ({max} ciudades).',
+  'compare.date': 'Fecha',
+  'compare.warmest': 'Más cálido',
+  'compare.wettest': 'Más lluvioso',
+  'compare.windiest': 'Más ventoso',
+  'compare.remove': 'Quitar {city} de la comparación',
+  'compare.clear': 'Quitar todas',
+  'compare.noData': 'Sin datos',
+
+  'card.today': 'Hoy',
+  'card.humidity': 'Humedad',
+  'card.wind': 'Viento',
+  'card.gusts': 'Rachas {speed}',
+  'card.pressure': 'Presión',
+  'card.visibility': 'Visibilidad',
+  'card.precipitation': 'Precipitación',
+  'card.chance': '{pop} % de probabilidad',
+  'card.rainAndSnow': 'Lluvia {rain} • Nieve {snow}',
+
+  'precipitation.rain': 'lluvia',
+  'precipitation.snow': 'nieve',
+  'precipitation.mixed': 'lluvia y nieve',
+  'precipitation.none': 'ninguna',
+
+  'hourly.title': 'Pronóstico cada 3 horas',
+  'hourly.showAll': 'Mostrar todos los días',
+  'hourly.feelsLike': 'Sensación {temperature}',
+  'hourly.pop': 'Probabilidad de precipitación',
+  'hourly.viewerTime': 'Tu hora local',
+
+  'charts.title': 'Gráficos de previsión',
+  'charts.hint': 'Pasa el cursor para ver detalles, haz clic en un día para seleccionarlo',
+  'charts.hintReadOnly': 'Pasa el cursor para ver detalles',
+  'charts.temperature': 'Temperatura',
+  'charts.feelsLike': 'Sensación',
+  'charts.precipitation': 'Precipitación',
+  'charts.pop': 'Probabilidad',
+  'charts.wind': 'Viento',
+  'charts.pressure': 'Presión',
+  'charts.trend.rising': 'En aumento',
+  'charts.trend.falling': 'En descenso',
+  'charts.trend.steady': 'Estable',
+
+  'sun.title': 'Sol y luna, {date}',
+  'sun.sun': 'Sol',
+  'sun.sunrise': 'Amanecer',
+  'sun.sunset': 'Atardecer',
+  'sun.solarNoon': 'Mediodía solar',
+  'sun.dayLength': 'Duración del día',
+  'sun.midnightSun': 'Sol sobre el horizonte todo el día',
+  'sun.polarNight': 'Sol bajo el horizonte todo el día',
+  'sun.twilight': 'Crepúsculo',
+  'sun.dawn': 'Alba',
+  'sun.dusk': 'Anochecer',
+  'sun.civil': 'Civil',
+  'sun.nautical': 'Náutico',
+  'sun.astronomical': 'Astronómico',
+  'sun.note': 'Calculado para las coordenadas del lugar. Horas locales; — significa que el sol o la luna no alcanza ese punto hoy.',
+  'moon.moon': 'Luna',
+  'moon.moonrise': 'Salida de la luna',
+  'moon.moonset': 'Puesta de la luna',
+  'moon.illumination': '{percent} % iluminada',
+  'moon.phase.new': 'Luna nueva',
+  'moon.phase.waxingCrescent': 'Luna creciente',
+  'moon.phase.firstQuarter': 'Cuarto creciente',
+  'moon.phase.waxingGibbous': 'Gibosa creciente',
+  'moon.phase.full': 'Luna llena',
+  'moon.phase.waningGibbous': 'Gibosa menguante',
+  'moon.phase.lastQuarter': 'Cuarto menguante',
+  'moon.phase.waningCrescent': 'Luna menguante',
+
+  'astro.title': 'Previsión para observar el cielo',
+  'astro.source': 'Datos: 7Timer! ASTRO',
+  'astro.bestWindow': 'Mejor ventana de observación: {window} ({rating})',
+  'astro.noWindow': 'No hay ninguna ventana de observación aceptable o buena en la previsión.',
+  'astro.noNights': 'No hay datos nocturnos para este lugar.',
+  'astro.unavailable': 'no se pudo cargar la previsión de observación.',
+  'astro.night': 'Noche del {date}',
+  'astro.rating.good': 'Buena',
+  'astro.rating.fair': 'Aceptable',
+  'astro.rating.poor': 'Mala',
+  'astro.time': 'Hora',
+  'astro.cloudCover': 'Nubes',
+  'astro.seeing': 'Seeing',
+  'astro.transparency': 'Transparencia',
+  'astro.liftedIndex': 'Índice de elevación',
+  'astro.sky': 'Cielo',
+  'astro.precipitation': 'Precipitación',
+  'astro.inBestWindow': 'En la mejor ventana de observación',
+  'astro.legend': 'El seeing es el desenfoque de las estrellas en segundos de arco y la transparencia la extinción en mag/masa de aire; en ambos, menos es mejor. Un índice de elevación muy negativo avisa de nubes convectivas.',
+
+  'error.auth.title': 'Problema con la clave API',
+  'error.auth.guidance': 'Revisa tu clave API de OpenWeatherMap en Ajustes. Las claves nuevas pueden tardar hasta dos horas en activarse.',
+  'error.rate-limit.title': 'Demasiadas solicitudes',
+  'error.rate-limit.guidance': 'Se ha alcanzado el límite de solicitudes de esta fuente. Espera un minuto antes de volver a intentarlo.',
+  'error.network.title': 'Problema de conexión',
+  'error.network.guidance': 'Comprueba tu conexión a Internet e inténtalo de nuevo.',
+  'error.bad-response.title': 'Respuesta inesperada',
+  'error.bad-response.guidance': 'El servicio meteorológico devolvió datos ilegibles. Inténtalo más tarde o cambia de fuente.',
+  'error.not-found.title': 'Sin datos para esta ubicación',
+  'error.not-found.guidance': 'Prueba con una ciudad cercana o con otra fuente de datos.',
+  'error.retryAfter': 'Reintenta en unos {seconds} segundos.',
+  'error.useDemo': 'Usar modo demo',
+
+  'settings.apiKey.title': 'Clave API de OpenWeatherMap',
+  'settings.apiKey.fromEnv': 'Usando la clave {key} de la variable de entorno VITE_OPENWEATHERMAP_API_KEY.',
+  'settings.apiKey.fromBrowser': 'Usando la clave {key} guardada en este navegador.',
+  'settings.apiKey.none': 'No hay ninguna clave API configurada. Consigue una gratis en openweathermap.org/api.',
+  'settings.apiKey.placeholder': 'Pega tu clave API',
+  'settings.apiKey.save': 'Probar y guardar',
+  'settings.apiKey.clear': 'Borrar',
+  'settings.apiKey.valid': 'Clave aceptada y guardada.',
+  'settings.apiKey.invalid': 'OpenWeatherMap rechazó la clave (401). Las claves nuevas pueden tardar hasta dos horas en activarse.',
+  'settings.apiKey.rateLimited': 'Clave reconocida pero limitada en este momento (429). Se ha guardado; inténtalo más tarde.',
+  'settings.apiKey.error': 'No se pudo contactar con OpenWeatherMap para probar la clave. Comprueba tu conexión e inténtalo de nuevo.',
+  'settings.close': 'Cerrar ajustes',
+
+  'units.title': 'Unidades e idioma',
+  'units.metric': 'Métrico',
+  'units.imperial': 'Imperial',
+  'units.temperature': 'Temperatura',
+  'units.windSpeed': 'Velocidad del viento',
+  'units.pressure': 'Presión',
+  'units.distance': 'Distancia',
+  'units.precipitation': 'Precipitación',
+  'units.beaufort': 'Beaufort',
+  'units.language': 'Idioma',
+  'units.browserDefault': 'Idioma del navegador'
+};
+
+export const conditions: Record<number, string> = {
+  200: 'tormenta con lluvia ligera',
+  201: 'tormenta con lluvia',
+  202: 'tormenta con lluvia intensa',
+  210: 'tormenta ligera',
+  211: 'tormenta',
+  212: 'tormenta fuerte',
+  221: 'tormentas dispersas',
+  230: 'tormenta con llovizna ligera',
+  231: 'tormenta con llovizna',
+  232: 'tormenta con llovizna intensa',
+  300: 'llovizna ligera',
+  301: 'llovizna',
+  302: 'llovizna intensa',
+  310: 'llovizna y lluvia ligeras',
+  311: 'llovizna y lluvia',
+  312: 'llovizna y lluvia intensas',
+  313: 'chubascos y llovizna',
+  314: 'chubascos intensos y llovizna',
+  321: 'chubascos de llovizna',
+  500: 'lluvia ligera',
+  501: 'lluvia moderada',
+  502: 'lluvia intensa',
+  503: 'lluvia muy intensa',
+  504: 'lluvia extrema',
+  511: 'lluvia helada',
+  520: 'chubascos ligeros',
+  521: 'chubascos',
+  522: 'chubascos intensos',
+  531: 'chubascos dispersos',
+  600: 'nevada ligera',
+  601: 'nieve',
+  602: 'nevada intensa',
+  611: 'aguanieve',
+  612: 'chubascos ligeros de aguanieve',
+  613: 'chubascos de aguanieve',
+  615: 'lluvia y nieve ligeras',
+  616: 'lluvia y nieve',
+  620: 'chubascos de nieve ligeros',
+  621: 'chubascos de nieve',
+  622: 'chubascos de nieve intensos',
+  701: 'neblina',
+  711: 'humo',
+  721: 'calima',
+  731: 'remolinos de arena',
+  741: 'niebla',
+  751: 'arena',
+  761: 'polvo',
+  762: 'ceniza volcánica',
+  771: 'turbonadas',
+  781: 'tornado',
+  800: 'cielo despejado',
+  801: 'algunas nubes',
+  802: 'nubes dispersas',
+  803: 'nublado',
+  804: 'cubierto'
+};
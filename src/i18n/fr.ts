@@ -0,0 +1,313 @@
+import { MessageKey } from './en';
+
+export const messages: Record<MessageKey, string> = {
+  'app.title': 'Prévisions météo mondiales',
+  'app.tagline': 'Des prévisions météo précises pour n\'importe quelle ville du monde. Recherchez sur tous les continents - de Lagos à Tokyo, de New York à São Paulo, du Caire à Sydney. Une couverture mondiale avec des données à jour.',
+  'app.settings': 'Paramètres',
+  'common.tryAgain': 'Réessayer',
+
+  'demo.banner': 'Mode démo : les prévisions sont simulées et ne reflètent pas la météo réelle.',
+  'demo.exit': 'Quitter le mode démo',
+
+  'offline.banner': 'Hors ligne — données du {time}',
+
+  'alerts.title': 'Alertes météo',
+  'alerts.hint': 'Les jours de prévision qui remplissent une règle sont signalés sur leur carte. Les lieux enregistrés peuvent aussi vous notifier.',
+  'alerts.above': '{metric} au-dessus de {threshold}',
+  'alerts.below': '{metric} en dessous de {threshold}',
+  'alerts.comparison.above': 'au-dessus de',
+  'alerts.comparison.below': 'en dessous de',
+  'alerts.metric.windSpeed': 'Vent',
+  'alerts.metric.windGust': 'Rafales',
+  'alerts.metric.tempMin': 'Température minimale',
+  'alerts.metric.tempMax': 'Température maximale',
+  'alerts.metric.precipitation': 'Précipitations',
+  'alerts.metric.pop': 'Probabilité de précipitations',
+  'alerts.enabled': 'Activée',
+  'alerts.threshold': 'Seuil',
+  'alerts.add': 'Ajouter une règle',
+  'alerts.remove': 'Supprimer la règle',
+  'alerts.reset': 'Rétablir les valeurs par défaut',
+  'alerts.notifications.enable': 'M\'avertir pour les lieux enregistrés',
+  'alerts.notifications.enabled': 'Les notifications sont activées pour les lieux enregistrés.',
+  'alerts.notifications.blocked': 'Les notifications sont bloquées pour ce site dans les paramètres du navigateur.',
+  'alerts.notifications.unsupported': 'Ce navigateur ne prend pas en charge les notifications.',
+  'alerts.match': '{rule} ({value})',
+  'alerts.official': '{event} — {sender}',
+  'alerts.notificationTitle': '{city} : alerte météo',
+  'alerts.count': '{count} alertes',
+
+  'provider.label': 'Source des données',
+
+  'forecast.updated': 'Mis à jour : {time}',
+  'forecast.refresh': 'Actualiser',
+  'forecast.localTime': 'Heure locale {time} ({offset})',
+  'forecast.withViewerTime': '{time} (votre heure {viewerTime})',
+  'forecast.showViewerTime': 'Afficher aussi mon heure locale',
+  'forecast.dataSource': 'Données mises à jour toutes les 3 heures • Fournies par {source}',
+  'forecast.noData': 'Aucune donnée météo disponible pour ce lieu.',
+  'forecast.loading': 'Chargement des données météo...',
+
+  'view.daily': 'Par jour',
+  'view.hourly': 'Par heure',
+  'view.astro': 'Étoiles',
+  'view.report': 'Rapport',
+  'share.copy': 'Copier le lien',
+  'share.copied': 'Lien copié',
+
+  'export.button': 'Exporter',
+  'export.format.daily-csv': 'Prévisions quotidiennes (CSV)',
+  'export.format.daily-json': 'Prévisions quotidiennes (JSON)',
+  'export.format.hourly-csv': 'Données par 3 heures (CSV)',
+  'export.format.hourly-json': 'Données par 3 heures (JSON)',
+  'export.format.ics': 'Événements d’agenda (.ics)',
+  'export.calendarName': 'Météo – {city}',
+  'export.calendarSource': 'Prévisions de {source}',
+
+  'report.title': 'Bulletin météo sur {days} jours',
+  'report.print': 'Imprimer / Enregistrer en PDF',
+  'report.day': 'Jour',
+  'report.conditions': 'Conditions',
+  'report.highLow': 'Max. / Min.',
+  'report.sun': 'Lever – Coucher',
+  'report.generated': 'Généré le {time}',
+  'report.source': 'Prévisions de {source}, récupérées le {time}',
+
+  'region.africa': 'Afrique',
+  'region.asia': 'Asie',
+  'region.europe': 'Europe',
+  'region.americas': 'Amériques',
+  'region.northAmerica': 'Amérique du Nord',
+  'region.southAmerica': 'Amérique du Sud',
+  'region.oceania': 'Océanie',
+  'region.unknown': 'Inconnu',
+
+  'features.realtime.title': 'Mises à jour régulières',
+  'features.realtime.text': 'Les données sont mises à jour toutes les 3 heures pour une précision maximale dans tous les fuseaux horaires.',
+  'features.search.title': 'Recherche intelligente',
+  'features.search.text': 'Saisie semi-automatique avec une base mondiale de milliers de villes.',
+  'features.detailed.title': 'Prévisions détaillées',
+  'features.detailed.text': 'Prévisions sur 7 jours : température, humidité, vent, pression et précipitations.',
+
+  'footer.poweredBy': 'Prévisions météo mondiales • Fournies par {source} • Plus de 200 pays',
+  'footer.copyright': '© 2024 Global Weather App • Couverture mondiale : Afrique, Asie, Europe, Amériques et Océanie',
+
+  'search.placeholder': 'Rechercher une ville dans le monde... (ex. Lagos, Le Caire, Tokyo, New York, São Paulo)',
+  'search.advanced': '🔍 Recherche mondiale avancée',
+  'search.unavailable': 'Recherche de villes indisponible',
+  'search.noResults': 'Aucune ville trouvée pour « {query} »',
+  'search.trySearching': 'Essayez par exemple :',
+  'search.hintMajor': '• Grandes villes : Londres, Tokyo, New York, São Paulo',
+  'search.hintAfrica': '• Villes africaines : Lagos, Le Caire, Nairobi, Le Cap',
+  'search.hintAsia': '• Villes asiatiques : Mumbai, Bangkok, Jakarta, Manille',
+  'search.hintLocal': '• Ou un nom de ville dans votre langue',
+  'search.coordinates': 'Coordonnées : {coordinates}',
+  'search.coverageTitle': '🌍 Couverture mondiale',
+  'search.coverageText': 'Recherchez des villes sur tous les continents. L\'application utilise la base de données mondiale d\'OpenWeatherMap avec des milliers de villes.',
+
+  'search.useLocation': 'Utiliser ma position',
+  'search.locating': 'Recherche de votre position...',
+  'geolocation.denied': 'L\'accès à la position a été refusé. Autorisez-le dans les paramètres du navigateur ou saisissez des coordonnées comme « 48.85, 2.35 ».',
+  'geolocation.timeout': 'La localisation a pris trop de temps. Réessayez ou saisissez des coordonnées comme « 48.85, 2.35 ».',
+  'geolocation.unavailable': 'Votre position est indisponible pour le moment. Réessayez ou saisissez des coordonnées comme « 48.85, 2.35 ».',
+  'geolocation.unsupported': 'Ce navigateur ne peut pas partager votre position. Saisissez plutôt des coordonnées comme « 48.85, 2.35 ».',
+
+  'favorites.title': 'Favoris',
+  'favorites.add': 'Ajouter aux favoris',
+  'favorites.remove': 'Retirer des favoris',
+  'favorites.rename': 'Renommer',
+  'favorites.reorderHint': 'Faites glisser les tuiles pour les réorganiser',
+  'favorites.unavailable': 'Prévisions indisponibles',
+
+  'compare.title': 'Comparaison de villes',
+  'compare.open': 'Comparer des villes',
+  'compare.close': 'Retour aux prévisions',
+  'compare.hint': 'Utilisez la recherche ci-dessus pour ajouter de {min} à {max} villes.',
+  'compare.needMore': 'Ajoutez au moins une autre ville pour comparer.',
+  'compare.full': 'La comparaison est complète ({max} villes).',
+  'compare.date': 'Date',
+  'compare.warmest': 'Plus chaud',
+  'compare.wettest': 'Plus humide',
+  'compare.windiest': 'Plus venteux',
+  'compare.remove': 'Retirer {city} de la comparaison',
+  'compare.clear': 'Tout effacer',
+  'compare.noData': 'Aucune donnée',
+
+  'card.today': 'Aujourd\'hui',
+  'card.humidity': 'Humidité',
+  'card.wind': 'Vent',
+  'card.gusts': 'Rafales {speed}',
+  'card.pressure': 'Pression',
+  'card.visibility': 'Visibilité',
+  'card.precipitation': 'Précipitations',
+  'card.chance': '{pop} % de probabilité',
+  'card.rainAndSnow': 'Pluie {rain} • Neige {snow}',
+
+  'precipitation.rain': 'pluie',
+  'precipitation.snow': 'neige',
+  'precipitation.mixed': 'pluie et neige',
+  'precipitation.none': 'aucune',
+
+  'hourly.title': 'Prévisions par 3 heures',
+  'hourly.showAll': 'Afficher tous les jours',
+  'hourly.feelsLike': 'Ressenti {temperature}',
+  'hourly.pop': 'Probabilité de précipitations',
+  'hourly.viewerTime': 'Votre heure locale',
+
+  'charts.title': 'Graphiques des prévisions',
+  'charts.hint': 'Survolez pour les détails, cliquez sur un jour pour le sélectionner',
+  'charts.hintReadOnly': 'Survolez pour les détails',
+  'charts.temperature': 'Température',
+  'charts.feelsLike': 'Ressenti',
+  'charts.precipitation': 'Précipitations',
+  'charts.pop': 'Probabilité',
+  'charts.wind': 'Vent',
+  'charts.pressure': 'Pression',
+  'charts.trend.rising': 'En hausse',
+  'charts.trend.falling': 'En baisse',
+  'charts.trend.steady': 'Stable',
+
+  'sun.title': 'Soleil et lune, {date}',
+  'sun.sun': 'Soleil',
+  'sun.sunrise': 'Lever du soleil',
+  'sun.sunset': 'Coucher du soleil',
+  'sun.solarNoon': 'Midi solaire',
+  'sun.dayLength': 'Durée du jour',
+  'sun.midnightSun': 'Soleil levé toute la journée',
+  'sun.polarNight': 'Soleil couché toute la journée',
+  'sun.twilight': 'Crépuscule',
+  'sun.dawn': 'Aube',
+  'sun.dusk': 'Soir',
+  'sun.civil': 'Civil',
+  'sun.nautical': 'Nautique',
+  'sun.astronomical': 'Astronomique',
+  'sun.note': 'Calculé pour les coordonnées du lieu. Heures locales ; — signifie que le soleil ou la lune n’atteint pas ce point aujourd’hui.',
+  'moon.moon': 'Lune',
+  'moon.moonrise': 'Lever de lune',
+  'moon.moonset': 'Coucher de lune',
+  'moon.illumination': 'Éclairée à {percent} %',
+  'moon.phase.new': 'Nouvelle lune',
+  'moon.phase.waxingCrescent': 'Premier croissant',
+  'moon.phase.firstQuarter': 'Premier quartier',
+  'moon.phase.waxingGibbous': 'Gibbeuse croissante',
+  'moon.phase.full': 'Pleine lune',
+  'moon.phase.waningGibbous': 'Gibbeuse décroissante',
+  'moon.phase.lastQuarter': 'Dernier quartier',
+  'moon.phase.waningCrescent': 'Dernier croissant',
+
+  'astro.title': 'Prévisions d’observation du ciel',
+  'astro.source': 'Données : 7Timer! ASTRO',
+  'astro.bestWindow': 'Meilleur créneau d’observation : {window} ({rating})',
+  'astro.noWindow': 'Aucun créneau d’observation correct ou bon dans les prévisions.',
+  'astro.noNights': 'Aucune donnée nocturne pour ce lieu.',
+  'astro.unavailable': 'les prévisions d’observation n’ont pas pu être chargées.',
+  'astro.night': 'Nuit du {date}',
+  'astro.rating.good': 'Bon',
+  'astro.rating.fair': 'Correct',
+  'astro.rating.poor': 'Mauvais',
+  'astro.time': 'Heure',
+  'astro.cloudCover': 'Nuages',
+  'astro.seeing': 'Seeing',
+  'astro.transparency': 'Transparence',
+  'astro.liftedIndex': 'Indice de soulèvement',
+  'astro.sky': 'Ciel',
+  'astro.precipitation': 'Précipitations',
+  'astro.inBestWindow': 'Dans le meilleur créneau d’observation',
+  'astro.legend': 'Le seeing est le flou des étoiles en secondes d’arc, la transparence l’extinction en mag/masse d’air ; plus c’est bas, mieux c’est. Un indice de soulèvement très négatif annonce des nuages convectifs.',
+
+  'error.auth.title': 'Problème de clé API',
+  'error.auth.guidance': 'Vérifiez votre clé API OpenWeatherMap dans les paramètres. Une nouvelle clé peut mettre jusqu\'à deux heures à s\'activer.',
+  'error.rate-limit.title': 'Trop de requêtes',
+  'error.rate-limit.guidance': 'La limite de requêtes de cette source est atteinte. Patientez une minute avant de réessayer.',
+  'error.network.title': 'Problème de connexion',
+  'error.network.guidance': 'Vérifiez votre connexion Internet et réessayez.',
+  'error.bad-response.title': 'Réponse inattendue',
+  'error.bad-response.guidance': 'Le service météo a renvoyé des données illisibles. Réessayez plus tard ou changez de source.',
+  'error.not-found.title': 'Aucune donnée pour ce lieu',
+  'error.not-found.guidance': 'Essayez une ville proche ou une autre source de données.',
+  'error.retryAfter': 'Réessayez dans environ {seconds} secondes.',
+  'error.useDemo': 'Utiliser le mode démo',
+
+  'settings.apiKey.title': 'Clé API OpenWeatherMap',
+  'settings.apiKey.fromEnv': 'Clé {key} issue de la variable d\'environnement VITE_OPENWEATHERMAP_API_KEY.',
+  'settings.apiKey.fromBrowser': 'Clé {key} enregistrée dans ce navigateur.',
+  'settings.apiKey.none': 'Aucune clé API configurée. Obtenez une clé gratuite sur openweathermap.org/api.',
+  'settings.apiKey.placeholder': 'Collez votre clé API',
+  'settings.apiKey.save': 'Tester et enregistrer',
+  'settings.apiKey.clear': 'Effacer',
+  'settings.apiKey.valid': 'Clé acceptée et enregistrée.',
+  'settings.apiKey.invalid': 'Clé refusée par OpenWeatherMap (401). Une nouvelle clé peut mettre jusqu\'à deux heures à s\'activer.',
+  'settings.apiKey.rateLimited': 'Clé reconnue mais actuellement limitée (429). Elle a été enregistrée ; réessayez plus tard.',
+  'settings.apiKey.error': 'Impossible de joindre OpenWeatherMap pour tester la clé. Vérifiez votre connexion et réessayez.',
+  'settings.close': 'Fermer les paramètres',
+
+  'units.title': 'Unités et langue',
+  'units.metric': 'Métrique',
+  'units.imperial': 'Impérial',
+  'units.temperature': 'Température',
+  'units.windSpeed': 'Vitesse du vent',
+  'units.pressure': 'Pression',
+  'units.distance': 'Distance',
+  'units.precipitation': 'Précipitations',
+  'units.beaufort': 'Beaufort',
+  'units.language': 'Langue',
+  'units.browserDefault': 'Langue du navigateur'
+};
+
+export const conditions: Record<number, string> = {
+  200: 'orage avec pluie légère',
+  201: 'orage avec pluie',
+  202: 'orage avec fortes pluies',
+  210: 'orage léger',
+  211: 'orage',
+  212: 'orage violent',
+  221: 'orages isolés',
+  230: 'orage avec bruine légère',
+  231: 'orage avec bruine',
+  232: 'orage avec forte bruine',
+  300: 'bruine légère',
+  301: 'bruine',
+  302: 'forte bruine',
+  310: 'bruine et pluie légères',
+  311: 'bruine et pluie',
+  312: 'fortes bruine et pluie',
+  313: 'averses et bruine',
+  314: 'fortes averses et bruine',
+  321: 'averses de bruine',
+  500: 'pluie légère',
+  501: 'pluie modérée',
+  502: 'forte pluie',
+  503: 'très forte pluie',
+  504: 'pluie extrême',
+  511: 'pluie verglaçante',
+  520: 'averses légères',
+  521: 'averses',
+  522: 'fortes averses',
+  531: 'averses isolées',
+  600: 'neige légère',
+  601: 'neige',
+  602: 'fortes chutes de neige',
+  611: 'neige fondue',
+  612: 'averses de neige fondue légères',
+  613: 'averses de neige fondue',
+  615: 'pluie et neige légères',
+  616: 'pluie et neige',
+  620: 'averses de neige légères',
+  621: 'averses de neige',
+  622: 'fortes averses de neige',
+  701: 'brume',
+  711: 'fumée',
+  721: 'brume sèche',
+  731: 'tourbillons de sable',
+  741: 'brouillard',
+  751: 'sable',
+  761: 'poussière',
+  762: 'cendres volcaniques',
+  771: 'grains',
+  781: 'tornade',
+  800: 'ciel dégagé',
+  801: 'quelques nuages',
+  802: 'nuages épars',
+  803: 'nuageux',
+  804: 'couvert'
+};
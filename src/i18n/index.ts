@@ -0,0 +1,47 @@
+import * as en from './en';
+import * as de from './de';
+import * as fr from './fr';
+import * as es from './es';
+import { MessageKey } from './en';
+import { GeocodingResult } from '../types/weather';
+import { resolveLocale } from '../utils/format';
+
+export type { MessageKey };
+
+export type Language = 'en' | 'de' | 'fr' | 'es';
+
+interface Catalog {
+  messages: Record<MessageKey, string>;
+  conditions: Record<number, string>;
+}
+
+const catalogs: Record<Language, Catalog> = { en, de, fr, es };
+
+export const SUPPORTED_LANGUAGES = Object.keys(catalogs) as Language[];
+
+export type TranslationParams = Record<string, string | number>;
+
+// UI language for a locale preference, falling back to English for unsupported languages
+export const getLanguage = (locale: string): Language => {
+  const code = resolveLocale(locale).slice(0, 2).toLowerCase();
+  return SUPPORTED_LANGUAGES.includes(code as Language) ? code as Language : 'en';
+};
+
+// Look up a message and fill in its {placeholders}
+export const translate = (language: Language, key: MessageKey, params?: TranslationParams): string => {
+  const template = catalogs[language].messages[key] ?? en.messages[key];
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name) =>
+    name in params ? String(params[name]) : match
+  );
+};
+
+// Condition description for an OpenWeatherMap condition code; unknown codes keep the provider's text
+export const translateCondition = (language: Language, conditionId: number, fallback: string): string =>
+  catalogs[language].conditions[conditionId] ?? fallback;
+
+// City name in the chosen language when the geocoder supplied one
+export const getLocalizedCityName = (
+  city: Pick<GeocodingResult, 'name' | 'local_names'>,
+  language: Language
+): string => city.local_names?.[language] ?? city.name;
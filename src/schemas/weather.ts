@@ -0,0 +1,158 @@
+import { array, literal, number, object, optional, record, string, union } from '../utils/schema';
+
+// Shapes of the JSON the weather services send. Responses are checked against these
+// before use, and the matching types in types/weather.ts are inferred from them.
+
+export const weatherDataPointSchema = object({
+  dt: number(),
+  main: object({
+    temp: number(),
+    feels_like: number(),
+    temp_min: number(),
+    temp_max: number(),
+    pressure: number(),
+    humidity: number()
+  }),
+  // The first condition is the primary one
+  weather: array(object({
+    id: number(),
+    main: string(),
+    description: string(),
+    icon: string()
+  }), { minLength: 1 }),
+  clouds: object({
+    all: number()
+  }),
+  wind: object({
+    speed: number(),
+    deg: number(),
+    gust: optional(number())
+  }),
+  visibility: number(),
+  pop: number(),
+  rain: optional(object({
+    '3h': number()
+  })),
+  snow: optional(object({
+    '3h': number()
+  })),
+  dt_txt: string()
+});
+
+// An official warning issued by a weather service, for providers that supply them
+export const weatherAlertSchema = object({
+  sender_name: string(),
+  event: string(),
+  // Unix seconds
+  start: number(),
+  end: number(),
+  description: string(),
+  tags: optional(array(string()))
+});
+
+export const weatherResponseSchema = object({
+  cod: string(),
+  message: number(),
+  cnt: number(),
+  list: array(weatherDataPointSchema),
+  city: object({
+    id: number(),
+    name: string(),
+    coord: object({
+      lat: number(),
+      lon: number()
+    }),
+    country: string(),
+    population: number(),
+    timezone: number(),
+    sunrise: number(),
+    sunset: number()
+  }),
+  alerts: optional(array(weatherAlertSchema))
+});
+
+export const geocodingResultSchema = object({
+  name: string(),
+  local_names: optional(record(string())),
+  lat: number(),
+  lon: number(),
+  country: string(),
+  state: optional(string())
+});
+
+export const geocodingResultsSchema = array(geocodingResultSchema);
+
+// Error body some services send instead of data, e.g. {"cod":"401","message":"Invalid API key"}
+export const errorBodySchema = object({
+  cod: union(string(), number()),
+  message: string()
+});
+
+export const sevenTimerProductSchema = literal('civil', 'civillight', 'astro', 'meteo');
+
+export const sevenTimerPrecipitationTypeSchema = literal('none', 'rain', 'snow', 'frzr', 'icep');
+
+export const sevenTimerWindSchema = object({
+  direction: string(),
+  speed: number()
+});
+
+// 3-hourly entry shared by the civil, astro and meteo products
+export const sevenTimerDataPointSchema = object({
+  timepoint: number(),
+  cloudcover: number(),
+  temp2m: number(),
+  prec_type: sevenTimerPrecipitationTypeSchema,
+  prec_amount: optional(number()),
+  // Percentage string ("65%") for civil/meteo, -4..16 index for astro
+  rh2m: union(string(), number()),
+  wind10m: sevenTimerWindSchema,
+  lifted_index: optional(number()),
+  weather: optional(string()),
+  seeing: optional(number()),
+  transparency: optional(number()),
+  msl_pressure: optional(number())
+});
+
+// Daily entry of the civillight product
+export const sevenTimerDailyPointSchema = object({
+  date: number(),
+  weather: string(),
+  temp2m: object({
+    max: number(),
+    min: number()
+  }),
+  wind10m_max: number()
+});
+
+// One shape per product, so the product field tells which kind of entries the series holds
+export const sevenTimerCivilResponseSchema = object({
+  product: literal('civil'),
+  init: string(),
+  dataseries: array(sevenTimerDataPointSchema)
+});
+
+export const sevenTimerCivilLightResponseSchema = object({
+  product: literal('civillight'),
+  init: string(),
+  dataseries: array(sevenTimerDailyPointSchema)
+});
+
+export const sevenTimerAstroResponseSchema = object({
+  product: literal('astro'),
+  init: string(),
+  dataseries: array(sevenTimerDataPointSchema)
+});
+
+export const sevenTimerMeteoResponseSchema = object({
+  product: literal('meteo'),
+  init: string(),
+  dataseries: array(sevenTimerDataPointSchema)
+});
+
+export const sevenTimerResponseSchema = union(
+  sevenTimerCivilResponseSchema,
+  sevenTimerCivilLightResponseSchema,
+  sevenTimerAstroResponseSchema,
+  sevenTimerMeteoResponseSchema
+);
@@ -0,0 +1,26 @@
+import { vi } from 'vitest';
+
+export interface DeferredRequest {
+  url: string;
+  signal?: AbortSignal;
+  // Answer the request with a JSON body
+  respond: (body: unknown) => void;
+}
+
+// A fetch whose responses arrive only when a test answers them, in any order. Aborting
+// rejects like a browser does, unless `ignoreAbort` simulates a response already on its way.
+export const createDeferredFetch = ({ ignoreAbort = false } = {}) => {
+  const requests: DeferredRequest[] = [];
+  const fetch = vi.fn((url: string, init?: RequestInit) => new Promise<Response>((resolve, reject) => {
+    const signal = init?.signal ?? undefined;
+    requests.push({
+      url,
+      signal,
+      respond: (body) => resolve(new Response(JSON.stringify(body), { status: 200 }))
+    });
+    if (!ignoreAbort) {
+      signal?.addEventListener('abort', () => reject(new DOMException('The operation was aborted.', 'AbortError')));
+    }
+  }));
+  return { fetch, requests };
+};
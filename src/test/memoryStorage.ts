@@ -0,0 +1,18 @@
+// In-memory stand-in for localStorage, which Node does not provide
+export const createMemoryStorage = (items: Record<string, string> = {}): Storage => {
+  const store = new Map(Object.entries(items));
+  return {
+    get length() {
+      return store.size;
+    },
+    key: (index) => [...store.keys()][index] ?? null,
+    getItem: (key) => store.get(key) ?? null,
+    setItem: (key, value) => {
+      store.set(key, String(value));
+    },
+    removeItem: (key) => {
+      store.delete(key);
+    },
+    clear: () => store.clear()
+  };
+};
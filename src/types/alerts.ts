@@ -0,0 +1,20 @@
+// Daily forecast values a rule can watch, all in metric units (°C, km/h, mm, %)
+export type AlertMetric = 'windSpeed' | 'windGust' | 'tempMin' | 'tempMax' | 'precipitation' | 'pop';
+
+export type AlertComparison = 'above' | 'below';
+
+// A user-defined threshold such as "wind above 50 km/h"
+export interface AlertRule {
+  id: string;
+  metric: AlertMetric;
+  comparison: AlertComparison;
+  threshold: number;
+  enabled: boolean;
+}
+
+// A forecast day on which a rule is met, with the value that met it
+export interface AlertMatch {
+  rule: AlertRule;
+  date: string;
+  value: number;
+}
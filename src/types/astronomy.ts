@@ -0,0 +1,79 @@
+export type SkyRating = 'good' | 'fair' | 'poor';
+
+// One 3-hour night slot of the 7Timer ASTRO forecast. Seeing and transparency are
+// 7Timer's classes, 1 (best) to 8 (worst).
+export interface AstroSlot {
+  dt: number;
+  cloudCover: number;
+  seeing: number;
+  transparency: number;
+  liftedIndex: number;
+  precipitating: boolean;
+  // 0 (useless) to 1 (perfect)
+  score: number;
+  rating: SkyRating;
+}
+
+// A run of consecutive slots worth observing in
+export interface ObservingWindow {
+  start: number;
+  // End of the last slot, in Unix seconds
+  end: number;
+  rating: SkyRating;
+}
+
+// The dark hours starting on the evening of `date` (location calendar day)
+export interface AstroNight {
+  date: string;
+  slots: AstroSlot[];
+  rating: SkyRating;
+  bestWindow: ObservingWindow | null;
+}
+
+export interface AstroForecast {
+  nights: AstroNight[];
+  bestWindow: ObservingWindow | null;
+}
+
+// Sun events on one calendar day at a location, in Unix seconds. An event is null when
+// the sun does not cross that altitude on the day (midnight sun or polar night).
+export interface SunTimes {
+  sunrise: number | null;
+  sunset: number | null;
+  solarNoon: number;
+  // Seconds the sun is above the horizon: 0 in polar night, 86400 under the midnight sun
+  dayLength: number;
+  civilDawn: number | null;
+  civilDusk: number | null;
+  nauticalDawn: number | null;
+  nauticalDusk: number | null;
+  astronomicalDawn: number | null;
+  astronomicalDusk: number | null;
+}
+
+export type MoonPhaseName =
+  | 'new'
+  | 'waxingCrescent'
+  | 'firstQuarter'
+  | 'waxingGibbous'
+  | 'full'
+  | 'waningGibbous'
+  | 'lastQuarter'
+  | 'waningCrescent';
+
+export interface MoonInfo {
+  // Null when the moon does not rise or set that day
+  moonrise: number | null;
+  moonset: number | null;
+  // Position in the lunar cycle: 0 new, 0.25 first quarter, 0.5 full, 0.75 last quarter
+  phase: number;
+  // Lit fraction of the disc, 0 to 1
+  illumination: number;
+  phaseName: MoonPhaseName;
+}
+
+export interface DayAstronomy {
+  date: string;
+  sun: SunTimes;
+  moon: MoonInfo;
+}
@@ -0,0 +1,16 @@
+import { GeocodingResult, ProcessedWeatherData } from './weather';
+import { WeatherApiError } from '../utils/errors';
+
+// One city's daily forecasts in the comparison table; failed fetches keep their error
+export interface ComparisonColumn {
+  city: GeocodingResult;
+  days: ProcessedWeatherData[];
+  error?: WeatherApiError;
+}
+
+// Column indexes holding the day's extreme values
+export interface DayExtremes {
+  warmest: number[];
+  wettest: number[];
+  windiest: number[];
+}
@@ -0,0 +1,9 @@
+import { GeocodingResult } from './weather';
+
+// A saved location shown on the favorites dashboard
+export interface FavoriteLocation {
+  id: string;
+  city: GeocodingResult;
+  // User-chosen display name; the (localized) city name is used when empty
+  label?: string;
+}
@@ -0,0 +1,21 @@
+export type TemperatureUnit = 'celsius' | 'fahrenheit';
+export type WindSpeedUnit = 'kmh' | 'ms' | 'mph' | 'knots' | 'beaufort';
+export type PressureUnit = 'hPa' | 'inHg' | 'mmHg';
+export type DistanceUnit = 'km' | 'mi';
+export type PrecipitationUnit = 'mm' | 'in';
+
+export type UnitSystem = 'metric' | 'imperial';
+
+export interface UnitPreferences {
+  temperature: TemperatureUnit;
+  windSpeed: WindSpeedUnit;
+  pressure: PressureUnit;
+  distance: DistanceUnit;
+  precipitation: PrecipitationUnit;
+}
+
+export interface Preferences {
+  units: UnitPreferences;
+  // BCP 47 tag used for number and date formatting, or 'auto' for the browser's
+  locale: string;
+}
@@ -1,3 +1,18 @@
+import type { Infer } from '../utils/schema';
+import type {
+  weatherDataPointSchema,
+  weatherAlertSchema,
+  weatherResponseSchema,
+  geocodingResultSchema,
+  sevenTimerProductSchema,
+  sevenTimerPrecipitationTypeSchema,
+  sevenTimerWindSchema,
+  sevenTimerDataPointSchema,
+  sevenTimerDailyPointSchema,
+  sevenTimerAstroResponseSchema,
+  sevenTimerResponseSchema
+} from '../schemas/weather';
+
 export interface City {
   name: string;
   country: string;
@@ -7,85 +22,106 @@ export interface City {
   timezone?: string;
 }
 
-export interface WeatherDataPoint {
-  dt: number;
-  main: {
-    temp: number;
-    feels_like: number;
-    temp_min: number;
-    temp_max: number;
-    pressure: number;
-    humidity: number;
-  };
-  weather: Array<{
-    id: number;
-    main: string;
-    description: string;
-    icon: string;
-  }>;
-  clouds: {
-    all: number;
-  };
-  wind: {
-    speed: number;
-    deg: number;
-    gust?: number;
-  };
-  visibility: number;
-  pop: number;
-  rain?: {
-    '3h': number;
-  };
-  snow?: {
-    '3h': number;
-  };
-  dt_txt: string;
-}
+// Payloads from the weather services, inferred from the schemas they are checked against
+export type WeatherDataPoint = Infer<typeof weatherDataPointSchema>;
 
-export interface WeatherResponse {
-  cod: string;
-  message: number;
-  cnt: number;
-  list: WeatherDataPoint[];
-  city: {
-    id: number;
-    name: string;
-    coord: {
-      lat: number;
-      lon: number;
-    };
-    country: string;
-    population: number;
-    timezone: number;
-    sunrise: number;
-    sunset: number;
-  };
-}
+// An official warning issued by a weather service, for providers that supply them
+export type WeatherAlert = Infer<typeof weatherAlertSchema>;
+
+export type WeatherResponse = Infer<typeof weatherResponseSchema>;
+
+export type PrecipitationType = 'rain' | 'snow' | 'mixed' | 'none';
 
+// Measurements stay unrounded in metric units (°C, km/h, hPa, km, mm); the formatter rounds them
 export interface ProcessedWeatherData {
   date: string;
   dayOfWeek: string;
   temperature: number;
   tempMin: number;
   tempMax: number;
+  conditionId: number;
   condition: string;
   description: string;
   humidity: number;
   windSpeed: number;
+  windGust: number;
   windDirection: string;
   precipitation: number;
-  precipitationType: string;
+  rain: number;
+  snow: number;
+  precipitationType: PrecipitationType;
+  pop: number;
   cloudCover: number;
   icon: string;
   pressure: number;
   visibility: number;
 }
 
-export interface GeocodingResult {
+// A single 3-hour forecast slot, as shown in the hourly timeline
+export interface HourlyForecastData {
+  dt: number;
+  date: string;
+  time: string;
+  temperature: number;
+  feelsLike: number;
+  pop: number;
+  windSpeed: number;
+  windGust: number;
+  // Degrees the wind blows from
+  windDeg: number;
+  windDirection: string;
+  pressure: number;
+  precipitation: number;
+  precipitationType: PrecipitationType;
+  conditionId: number;
+  condition: string;
+  description: string;
+  icon: string;
+}
+
+export type GeocodingResult = Infer<typeof geocodingResultSchema>;
+
+// Options accepted by every provider call
+export interface RequestOptions {
+  // Cancels the call, which then rejects with an AbortError
+  signal?: AbortSignal;
+}
+
+export interface ForecastOptions extends RequestOptions {
+  // Two-letter language code for condition descriptions; providers without translations ignore it
+  lang?: string;
+  // Bypass any cached response
+  refresh?: boolean;
+  // Receives newer data when a cached response was served while it was being refreshed
+  onRevalidate?: (data: WeatherResponse) => void;
+}
+
+// A source of forecasts and place names that the app can switch between at runtime
+export interface WeatherProvider {
+  id: string;
   name: string;
-  local_names?: Record<string, string>;
-  lat: number;
-  lon: number;
-  country: string;
-  state?: string;
-}
\ No newline at end of file
+  fetchForecast: (lat: number, lon: number, options?: ForecastOptions) => Promise<WeatherResponse>;
+  // Without a limit providers return their default, relevance-sorted result set
+  geocode: (query: string, limit?: number, options?: RequestOptions) => Promise<GeocodingResult[]>;
+  reverseGeocode: (lat: number, lon: number, options?: RequestOptions) => Promise<GeocodingResult[]>;
+  // Changes whenever place searches would be answered differently, e.g. once an API key
+  // replaces the built-in city list; cached search results are kept per scope
+  cacheScope?: () => string;
+}
+
+export type SevenTimerProduct = Infer<typeof sevenTimerProductSchema>;
+
+export type SevenTimerPrecipitationType = Infer<typeof sevenTimerPrecipitationTypeSchema>;
+
+export type SevenTimerWind = Infer<typeof sevenTimerWindSchema>;
+
+// 3-hourly entry shared by the civil, astro and meteo products
+export type SevenTimerDataPoint = Infer<typeof sevenTimerDataPointSchema>;
+
+// Daily entry of the civillight product
+export type SevenTimerDailyPoint = Infer<typeof sevenTimerDailyPointSchema>;
+
+export type SevenTimerAstroResponse = Infer<typeof sevenTimerAstroResponseSchema>;
+
+// Any product; narrow on product to get the matching kind of entries
+export type SevenTimerResponse = Infer<typeof sevenTimerResponseSchema>;
@@ -0,0 +1,172 @@
+import { AlertComparison, AlertMatch, AlertMetric, AlertRule } from '../types/alerts';
+import { ProcessedWeatherData, WeatherAlert } from '../types/weather';
+import { Formatter } from './format';
+import { getLocationDateKey } from './time';
+import { MessageKey, TranslationParams } from '../i18n';
+
+const RULES_STORAGE_KEY = 'weather.alertRules';
+const NOTIFIED_STORAGE_KEY = 'weather.alertsNotified';
+const MAX_NOTIFIED = 200;
+
+export const ALERT_METRICS: AlertMetric[] = ['windSpeed', 'windGust', 'tempMin', 'tempMax', 'precipitation', 'pop'];
+
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  { id: 'wind', metric: 'windSpeed', comparison: 'above', threshold: 50, enabled: true },
+  { id: 'frost', metric: 'tempMin', comparison: 'below', threshold: 0, enabled: true },
+  { id: 'rain', metric: 'precipitation', comparison: 'above', threshold: 10, enabled: true },
+  { id: 'pop', metric: 'pop', comparison: 'above', threshold: 70, enabled: true }
+];
+
+const getMetricValue = (day: ProcessedWeatherData, metric: AlertMetric): number => day[metric];
+
+const meets = (value: number, comparison: AlertComparison, threshold: number): boolean =>
+  comparison === 'above' ? value > threshold : value < threshold;
+
+// Every enabled rule met on every forecast day, in day order
+export const evaluateAlertRules = (rules: AlertRule[], days: ProcessedWeatherData[]): AlertMatch[] =>
+  days.flatMap(day => rules
+    .filter(rule => rule.enabled)
+    .map(rule => ({ rule, date: day.date, value: getMetricValue(day, rule.metric) }))
+    .filter(match => meets(match.value, match.rule.comparison, match.rule.threshold)));
+
+export const getAlertsForDay = (matches: AlertMatch[], date: string): AlertMatch[] =>
+  matches.filter(match => match.date === date);
+
+// Official alerts in force at any time during a calendar day at the location
+export const getOfficialAlertsForDay = (alerts: WeatherAlert[], date: string, utcOffset: number): WeatherAlert[] =>
+  alerts.filter(alert =>
+    getLocationDateKey(alert.start, utcOffset) <= date && getLocationDateKey(alert.end - 1, utcOffset) >= date);
+
+// Starting threshold of a rule watching each metric, in metric units
+export const DEFAULT_THRESHOLDS: Record<AlertMetric, number> = {
+  windSpeed: 50,
+  windGust: 70,
+  tempMin: 0,
+  tempMax: 30,
+  precipitation: 10,
+  pop: 70
+};
+
+export const createAlertRule = (): AlertRule => ({
+  id: `rule-${Date.now().toString(36)}`,
+  metric: 'windGust',
+  comparison: 'above',
+  threshold: DEFAULT_THRESHOLDS.windGust,
+  enabled: true
+});
+
+type Translate = (key: MessageKey, params?: TranslationParams) => string;
+
+// Value of a metric in the user's units
+export const formatMetricValue = (metric: AlertMetric, value: number, format: Formatter): string => {
+  switch (metric) {
+    case 'windSpeed':
+    case 'windGust':
+      return format.windSpeed(value);
+    case 'tempMin':
+    case 'tempMax':
+      return format.temperature(value);
+    case 'precipitation':
+      return format.precipitation(value);
+    case 'pop':
+      return `${format.number(value)}%`;
+  }
+};
+
+// "Wind above 50 km/h"
+export const describeAlertRule = (rule: AlertRule, format: Formatter, t: Translate): string =>
+  t(`alerts.${rule.comparison}`, {
+    metric: t(`alerts.metric.${rule.metric}`),
+    threshold: formatMetricValue(rule.metric, rule.threshold, format)
+  });
+
+// Notifications already shown, so a match is announced once rather than on every refresh
+const loadNotified = (): string[] => {
+  try {
+    const stored = localStorage.getItem(NOTIFIED_STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveNotified = (keys: string[]) => {
+  try {
+    localStorage.setItem(NOTIFIED_STORAGE_KEY, JSON.stringify(keys.slice(-MAX_NOTIFIED)));
+  } catch (error) {
+    console.warn('Could not save alert notifications:', error);
+  }
+};
+
+export interface AlertNotification {
+  // Identifies what is announced, e.g. location, rule and day
+  key: string;
+  title: string;
+  body: string;
+}
+
+export const canNotify = (): boolean =>
+  'Notification' in window && Notification.permission === 'granted';
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission> =>
+  'Notification' in window ? Notification.requestPermission() : 'denied';
+
+const getServiceWorkerRegistration = async (): Promise<ServiceWorkerRegistration | undefined> => {
+  if (!('serviceWorker' in navigator)) return undefined;
+  try {
+    return await navigator.serviceWorker.getRegistration();
+  } catch (error) {
+    console.warn('Could not look up the service worker:', error);
+    return undefined;
+  }
+};
+
+// Show the notifications that have not been shown before. Mobile browsers only allow
+// notifications through the service worker, so that is preferred when one is active;
+// without one (always the case in development) they refuse `new Notification`.
+// Never rejects: a notification that cannot be shown is only logged.
+export const showAlertNotifications = async (notifications: AlertNotification[]) => {
+  if (!canNotify()) return;
+  const notified = loadNotified();
+  const fresh = notifications.filter(notification => !notified.includes(notification.key));
+  if (fresh.length === 0) return;
+  saveNotified([...notified, ...fresh.map(notification => notification.key)]);
+
+  const registration = await getServiceWorkerRegistration();
+  fresh.forEach(({ key, title, body }) => {
+    const options = { body, tag: key, icon: 'icons/icon-192.png' };
+    if (registration) {
+      registration.showNotification(title, options)
+        .catch(error => console.warn('Could not show notification:', error));
+      return;
+    }
+    try {
+      new Notification(title, options);
+    } catch (error) {
+      console.warn('Could not show notification:', error);
+    }
+  });
+};
+
+export const loadAlertRules = (): AlertRule[] => {
+  try {
+    const stored = localStorage.getItem(RULES_STORAGE_KEY);
+    if (!stored) return DEFAULT_ALERT_RULES;
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed)
+      ? parsed.filter((rule: AlertRule) =>
+          ALERT_METRICS.includes(rule?.metric) && typeof rule?.threshold === 'number')
+      : DEFAULT_ALERT_RULES;
+  } catch {
+    return DEFAULT_ALERT_RULES;
+  }
+};
+
+export const saveAlertRules = (rules: AlertRule[]) => {
+  try {
+    localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(rules));
+  } catch (error) {
+    console.warn('Could not save alert rules:', error);
+  }
+};
@@ -0,0 +1,48 @@
+import { hashString } from './hash';
+
+// The OpenWeatherMap key comes from the settings panel (localStorage) first,
+// then from the VITE_OPENWEATHERMAP_API_KEY environment variable
+const STORAGE_KEY = 'weather.openWeatherMapApiKey';
+
+export type ApiKeySource = 'settings' | 'env';
+
+const readStoredKey = (): string | null => {
+  try {
+    return localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+const readEnvKey = (): string | null => import.meta.env.VITE_OPENWEATHERMAP_API_KEY?.trim() || null;
+
+export const getApiKey = (): string | null => readStoredKey() || readEnvKey();
+
+// Stands in for the key in cache keys, so results fetched with one key (or none) are
+// not served after it changes, without writing the key itself anywhere else
+export const getApiKeyFingerprint = (): string => {
+  const key = getApiKey();
+  return key ? hashString(key).toString(36) : 'none';
+};
+
+export const getApiKeySource = (): ApiKeySource | null => {
+  if (readStoredKey()) return 'settings';
+  if (readEnvKey()) return 'env';
+  return null;
+};
+
+export const saveApiKey = (key: string) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, key.trim());
+  } catch (error) {
+    console.warn('Could not save API key:', error);
+  }
+};
+
+export const clearApiKey = () => {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.warn('Could not clear API key:', error);
+  }
+};
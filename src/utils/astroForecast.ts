@@ -0,0 +1,119 @@
+import { AstroForecast, AstroNight, AstroSlot, ObservingWindow, SkyRating } from '../types/astronomy';
+import { RequestOptions, SevenTimerAstroResponse, SevenTimerDataPoint } from '../types/weather';
+import { CLOUD_COVER_PERCENT, fetchSevenTimerAstro, isDaytime, parseInitTime } from './sevenTimerApi';
+import { CACHE_POLICIES, cachedCall, getAstroCacheKey } from './cache';
+import { getLocationDateKey } from './time';
+import { sevenTimerAstroResponseSchema } from '../schemas/weather';
+
+const SLOT_SECONDS = 3 * 3600;
+
+// Slot scores at or above these count as good or fair skies
+const GOOD_SCORE = 0.7;
+const FAIR_SCORE = 0.45;
+
+// Lifted index at or below this means unstable air and a risk of convective cloud
+const UNSTABLE_LIFTED_INDEX = -4;
+
+// Seeing classes as FWHM in arcseconds, transparency classes as extinction in mag/airmass
+export const SEEING_ARCSEC = ['<0.5″', '0.5–0.75″', '0.75–1″', '1–1.25″', '1.25–1.5″', '1.5–2″', '2–2.5″', '>2.5″'];
+export const TRANSPARENCY_MAG = ['<0.3', '0.3–0.4', '0.4–0.5', '0.5–0.6', '0.6–0.7', '0.7–0.85', '0.85–1', '>1'];
+
+export const getRating = (score: number): SkyRating => {
+  if (score >= GOOD_SCORE) return 'good';
+  if (score >= FAIR_SCORE) return 'fair';
+  return 'poor';
+};
+
+// Clouds matter most; seeing and transparency decide how good a clear sky is
+const scoreSlot = (point: SevenTimerDataPoint): number => {
+  if (point.prec_type !== 'none') return 0;
+  const cloud = (9 - point.cloudcover) / 8;
+  const seeing = (8 - (point.seeing ?? 8)) / 7;
+  const transparency = (8 - (point.transparency ?? 8)) / 7;
+  const score = cloud * 0.5 + seeing * 0.25 + transparency * 0.25;
+  return (point.lifted_index ?? 0) <= UNSTABLE_LIFTED_INDEX ? score * 0.8 : score;
+};
+
+// The run of consecutive fair-or-better slots with the highest total score
+const findBestWindow = (slots: AstroSlot[]): ObservingWindow | null => {
+  let best: { first: number; last: number; total: number } | null = null;
+  let first = -1;
+  let total = 0;
+
+  for (let index = 0; index < slots.length; index++) {
+    const continues = index > 0 && slots[index].dt - slots[index - 1].dt === SLOT_SECONDS;
+    if (slots[index].score < FAIR_SCORE || !continues) {
+      first = -1;
+      total = 0;
+    }
+    if (slots[index].score < FAIR_SCORE) continue;
+    if (first < 0) first = index;
+    total += slots[index].score;
+    if (!best || total > best.total) best = { first, last: index, total };
+  }
+
+  if (!best) return null;
+  const window = slots.slice(best.first, best.last + 1);
+  return {
+    start: window[0].dt,
+    end: window[window.length - 1].dt + SLOT_SECONDS,
+    rating: getRating(best.total / window.length)
+  };
+};
+
+// Group the dark slots into nights and rate them. Night slots are those between solar
+// 18:00 and 06:00; a slot after midnight belongs to the previous evening's night.
+export const processAstroForecast = (data: SevenTimerAstroResponse, lon: number, utcOffset: number): AstroForecast => {
+  const initTime = parseInitTime(data.init);
+  const nights = new Map<string, AstroSlot[]>();
+
+  data.dataseries.forEach(point => {
+    const date = new Date(initTime + point.timepoint * 3600 * 1000);
+    if (isDaytime(date, lon)) return;
+
+    const dt = Math.floor(date.getTime() / 1000);
+    const score = scoreSlot(point);
+    const slot: AstroSlot = {
+      dt,
+      cloudCover: CLOUD_COVER_PERCENT[point.cloudcover] ?? 100,
+      seeing: point.seeing ?? 8,
+      transparency: point.transparency ?? 8,
+      liftedIndex: point.lifted_index ?? 0,
+      precipitating: point.prec_type !== 'none',
+      score,
+      rating: getRating(score)
+    };
+
+    const night = getLocationDateKey(dt - 12 * 3600, utcOffset);
+    nights.set(night, [...(nights.get(night) ?? []), slot]);
+  });
+
+  const processed: AstroNight[] = [...nights.entries()].map(([date, slots]) => ({
+    date,
+    slots,
+    rating: getRating(slots.reduce((sum, slot) => sum + slot.score, 0) / slots.length),
+    bestWindow: findBestWindow(slots)
+  }));
+
+  return {
+    nights: processed,
+    bestWindow: findBestWindow(processed.flatMap(night => night.slots))
+  };
+};
+
+// ASTRO data comes from 7Timer whatever source is selected, cached like the forecasts
+export const fetchAstroForecast = async (
+  lat: number,
+  lon: number,
+  utcOffset: number,
+  options: RequestOptions = {}
+): Promise<AstroForecast> => {
+  const data = await cachedCall<SevenTimerAstroResponse>(
+    getAstroCacheKey(lat, lon),
+    CACHE_POLICIES.forecast,
+    sevenTimerAstroResponseSchema,
+    (signal) => fetchSevenTimerAstro(lat, lon, signal),
+    options
+  );
+  return processAstroForecast(data, lon, utcOffset);
+};
@@ -0,0 +1,232 @@
+import { DayAstronomy, MoonInfo, MoonPhaseName, SunTimes } from '../types/astronomy';
+
+// Sun and moon positions from low-precision ephemerides (after the Astronomical Almanac
+// and Meeus), good to a minute or two for rise and set times. Everything is computed
+// locally, so it works for any place and date without a network request.
+
+const RAD = Math.PI / 180;
+const DAY_SECONDS = 86400;
+const J1970 = 2440588;
+const J2000 = 2451545;
+// Obliquity of the ecliptic
+const OBLIQUITY = 23.4397 * RAD;
+// Correction in days from mean to actual solar transit
+const J0 = 0.0009;
+const SUN_DISTANCE_KM = 149598000;
+
+// Altitudes of the sun's centre at sunrise and at the start of each twilight. Sunrise
+// allows for refraction and the sun's radius.
+const SUNRISE_ALTITUDE = -0.833;
+const CIVIL_ALTITUDE = -6;
+const NAUTICAL_ALTITUDE = -12;
+const ASTRONOMICAL_ALTITUDE = -18;
+// Geocentric altitude of the moon's centre at moonrise: parallax minus refraction and radius
+const MOONRISE_ALTITUDE = 0.125;
+// Step when searching a day for moonrise and moonset
+const MOON_STEP_SECONDS = 600;
+
+const MOON_PHASES: MoonPhaseName[] = [
+  'new',
+  'waxingCrescent',
+  'firstQuarter',
+  'waxingGibbous',
+  'full',
+  'waningGibbous',
+  'lastQuarter',
+  'waningCrescent'
+];
+
+export const MOON_PHASE_EMOJI: Record<MoonPhaseName, string> = {
+  new: '🌑',
+  waxingCrescent: '🌒',
+  firstQuarter: '🌓',
+  waxingGibbous: '🌔',
+  full: '🌕',
+  waningGibbous: '🌖',
+  lastQuarter: '🌗',
+  waningCrescent: '🌘'
+};
+
+interface Coordinates {
+  ra: number;
+  dec: number;
+}
+
+// Days since J2000.0 for Unix seconds, and back
+const toDays = (dt: number): number => dt / DAY_SECONDS - 0.5 + J1970 - J2000;
+const fromDays = (days: number): number => Math.round((days + 0.5 + J2000 - J1970) * DAY_SECONDS);
+
+// Unix seconds of a time of day on a calendar day (YYYY-MM-DD) at the location
+const getLocationTime = (dateKey: string, hour: number, utcOffset: number): number => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return Date.UTC(year, month - 1, day, hour) / 1000 - utcOffset;
+};
+
+const rightAscension = (longitude: number, latitude: number): number =>
+  Math.atan2(
+    Math.sin(longitude) * Math.cos(OBLIQUITY) - Math.tan(latitude) * Math.sin(OBLIQUITY),
+    Math.cos(longitude)
+  );
+
+const declination = (longitude: number, latitude: number): number =>
+  Math.asin(
+    Math.sin(latitude) * Math.cos(OBLIQUITY) +
+    Math.cos(latitude) * Math.sin(OBLIQUITY) * Math.sin(longitude)
+  );
+
+// Local sidereal time for a west longitude `lw` in radians
+const siderealTime = (days: number, lw: number): number => RAD * (280.16 + 360.9856235 * days) - lw;
+
+const altitude = (hourAngle: number, phi: number, dec: number): number =>
+  Math.asin(Math.sin(phi) * Math.sin(dec) + Math.cos(phi) * Math.cos(dec) * Math.cos(hourAngle));
+
+const solarMeanAnomaly = (days: number): number => RAD * (357.5291 + 0.98560028 * days);
+
+const eclipticLongitude = (meanAnomaly: number): number => {
+  const center = RAD * (
+    1.9148 * Math.sin(meanAnomaly) +
+    0.02 * Math.sin(2 * meanAnomaly) +
+    0.0003 * Math.sin(3 * meanAnomaly)
+  );
+  // Perihelion of the Earth
+  const perihelion = RAD * 102.9372;
+  return meanAnomaly + center + perihelion + Math.PI;
+};
+
+const sunCoordinates = (days: number): Coordinates => {
+  const longitude = eclipticLongitude(solarMeanAnomaly(days));
+  return { ra: rightAscension(longitude, 0), dec: declination(longitude, 0) };
+};
+
+const moonCoordinates = (days: number): Coordinates & { distance: number } => {
+  const meanLongitude = RAD * (218.316 + 13.176396 * days);
+  const meanAnomaly = RAD * (134.963 + 13.064993 * days);
+  const argumentOfLatitude = RAD * (93.272 + 13.22935 * days);
+  const longitude = meanLongitude + RAD * 6.289 * Math.sin(meanAnomaly);
+  const latitude = RAD * 5.128 * Math.sin(argumentOfLatitude);
+  return {
+    ra: rightAscension(longitude, latitude),
+    dec: declination(longitude, latitude),
+    distance: 385001 - 20905 * Math.cos(meanAnomaly)
+  };
+};
+
+// Altitude in degrees of the sun or moon centre at a time and place
+const getAltitude = (
+  coordinates: (days: number) => Coordinates,
+  dt: number,
+  lat: number,
+  lon: number
+): number => {
+  const days = toDays(dt);
+  const { ra, dec } = coordinates(days);
+  return altitude(siderealTime(days, -lon * RAD) - ra, lat * RAD, dec) / RAD;
+};
+
+// Whether the sun is above the horizon, as at sunrise, at a time and place
+export const isSunUp = (dt: number, lat: number, lon: number): boolean =>
+  getAltitude(sunCoordinates, dt, lat, lon) > SUNRISE_ALTITUDE;
+
+export const getSunTimes = (lat: number, lon: number, dateKey: string, utcOffset: number): SunTimes => {
+  const lw = -lon * RAD;
+  const phi = lat * RAD;
+
+  // The solar transit nearest to noon on the day at the location
+  const cycle = Math.round(toDays(getLocationTime(dateKey, 12, utcOffset)) - J0 - lw / (2 * Math.PI));
+  const approxTransit = J0 + lw / (2 * Math.PI) + cycle;
+  const meanAnomaly = solarMeanAnomaly(approxTransit);
+  const longitude = eclipticLongitude(meanAnomaly);
+  const dec = declination(longitude, 0);
+  const transit = approxTransit + 0.0053 * Math.sin(meanAnomaly) - 0.0069 * Math.sin(2 * longitude);
+
+  // Cosine of the hour angle at which the sun reaches `altitudeDegrees`; beyond ±1 it never does
+  const getCosHourAngle = (altitudeDegrees: number) =>
+    (Math.sin(altitudeDegrees * RAD) - Math.sin(phi) * Math.sin(dec)) / (Math.cos(phi) * Math.cos(dec));
+
+  const getCrossings = (altitudeDegrees: number): [number | null, number | null] => {
+    const cosHourAngle = getCosHourAngle(altitudeDegrees);
+    if (Math.abs(cosHourAngle) > 1) return [null, null];
+    const offset = Math.acos(cosHourAngle) / (2 * Math.PI);
+    return [fromDays(transit - offset), fromDays(transit + offset)];
+  };
+
+  const [sunrise, sunset] = getCrossings(SUNRISE_ALTITUDE);
+  const [civilDawn, civilDusk] = getCrossings(CIVIL_ALTITUDE);
+  const [nauticalDawn, nauticalDusk] = getCrossings(NAUTICAL_ALTITUDE);
+  const [astronomicalDawn, astronomicalDusk] = getCrossings(ASTRONOMICAL_ALTITUDE);
+
+  let dayLength = 0;
+  if (sunrise !== null && sunset !== null) {
+    dayLength = sunset - sunrise;
+  } else if (getCosHourAngle(SUNRISE_ALTITUDE) < -1) {
+    dayLength = DAY_SECONDS;
+  }
+
+  return {
+    sunrise,
+    sunset,
+    solarNoon: fromDays(transit),
+    dayLength,
+    civilDawn,
+    civilDusk,
+    nauticalDawn,
+    nauticalDusk,
+    astronomicalDawn,
+    astronomicalDusk
+  };
+};
+
+// Phase and lit fraction from the angle between sun and moon as seen from the Earth
+const getMoonIllumination = (dt: number): Pick<MoonInfo, 'phase' | 'illumination' | 'phaseName'> => {
+  const days = toDays(dt);
+  const sun = sunCoordinates(days);
+  const moon = moonCoordinates(days);
+
+  const elongation = Math.acos(
+    Math.sin(sun.dec) * Math.sin(moon.dec) +
+    Math.cos(sun.dec) * Math.cos(moon.dec) * Math.cos(sun.ra - moon.ra)
+  );
+  const phaseAngle = Math.atan2(
+    SUN_DISTANCE_KM * Math.sin(elongation),
+    moon.distance - SUN_DISTANCE_KM * Math.cos(elongation)
+  );
+  // Negative while the moon is east of the sun, i.e. waxing
+  const side = Math.atan2(
+    Math.cos(sun.dec) * Math.sin(sun.ra - moon.ra),
+    Math.sin(sun.dec) * Math.cos(moon.dec) - Math.cos(sun.dec) * Math.sin(moon.dec) * Math.cos(sun.ra - moon.ra)
+  );
+
+  const phase = 0.5 + (0.5 * phaseAngle * (side < 0 ? -1 : 1)) / Math.PI;
+  return {
+    phase,
+    illumination: (1 + Math.cos(phaseAngle)) / 2,
+    phaseName: MOON_PHASES[Math.round(phase * MOON_PHASES.length) % MOON_PHASES.length]
+  };
+};
+
+export const getMoonInfo = (lat: number, lon: number, dateKey: string, utcOffset: number): MoonInfo => {
+  const start = getLocationTime(dateKey, 0, utcOffset);
+  const getHeight = (dt: number) => getAltitude(moonCoordinates, dt, lat, lon) - MOONRISE_ALTITUDE;
+
+  // Step through the day and interpolate where the moon crosses the horizon
+  let moonrise: number | null = null;
+  let moonset: number | null = null;
+  let previous = getHeight(start);
+  for (let dt = start + MOON_STEP_SECONDS; dt <= start + DAY_SECONDS; dt += MOON_STEP_SECONDS) {
+    const current = getHeight(dt);
+    if ((previous < 0) !== (current < 0)) {
+      const crossing = Math.round(dt - MOON_STEP_SECONDS + (MOON_STEP_SECONDS * previous) / (previous - current));
+      if (current >= 0) moonrise ??= crossing;
+      else moonset ??= crossing;
+    }
+    previous = current;
+  }
+
+  return { moonrise, moonset, ...getMoonIllumination(getLocationTime(dateKey, 12, utcOffset)) };
+};
+
+export const getDayAstronomy = (lat: number, lon: number, dateKey: string, utcOffset: number): DayAstronomy => ({
+  date: dateKey,
+  sun: getSunTimes(lat, lon, dateKey, utcOffset),
+  moon: getMoonInfo(lat, lon, dateKey, utcOffset)
+});
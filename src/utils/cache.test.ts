@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { geocodingResultsSchema } from '../schemas/weather';
+import { createDeferredFetch } from '../test/deferredFetch';
+import { createMemoryStorage } from '../test/memoryStorage';
+import { CACHE_POLICIES, cachedCall } from './cache';
+import { fetchJson } from './http';
+import { isAbortError } from './errors';
+
+const ZURICH = [{ name: 'Zurich', lat: 47.3769, lon: 8.5417, country: 'CH' }];
+
+// Every test uses its own key, as the in-memory cache lives as long as the module
+let keyCount = 0;
+const nextKey = () => `test:geocode:${++keyCount}`;
+
+const search = (key: string, signal?: AbortSignal) =>
+  cachedCall(
+    key,
+    CACHE_POLICIES.geocode,
+    geocodingResultsSchema,
+    (fetchSignal) => fetchJson(`https://example.test/${key}`, 'Test', geocodingResultsSchema, fetchSignal),
+    { signal }
+  );
+
+const expectAbort = async (promise: Promise<unknown>) => {
+  const error = await promise.catch(caught => caught);
+  expect(isAbortError(error)).toBe(true);
+};
+
+describe('cachedCall with requests in flight', () => {
+  let deferred: ReturnType<typeof createDeferredFetch>;
+
+  beforeEach(() => {
+    deferred = createDeferredFetch();
+    vi.stubGlobal('fetch', deferred.fetch);
+    vi.stubGlobal('localStorage', createMemoryStorage());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('shares one request between callers asking for the same key', async () => {
+    const key = nextKey();
+    const first = search(key, new AbortController().signal);
+    const second = search(key, new AbortController().signal);
+
+    expect(deferred.fetch).toHaveBeenCalledTimes(1);
+    deferred.requests[0].respond(ZURICH);
+    expect(await first).toEqual(ZURICH);
+    expect(await second).toEqual(ZURICH);
+  });
+
+  it('aborts a shared request only when its last waiter aborts', async () => {
+    const key = nextKey();
+    const firstController = new AbortController();
+    const secondController = new AbortController();
+    const first = search(key, firstController.signal);
+    const second = search(key, secondController.signal);
+    const { signal } = deferred.requests[0];
+
+    firstController.abort();
+    await expectAbort(first);
+    expect(signal?.aborted).toBe(false);
+
+    secondController.abort();
+    await expectAbort(second);
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it('still answers a waiter that joins a live request after another gave up', async () => {
+    const key = nextKey();
+    const firstController = new AbortController();
+    const first = search(key, firstController.signal);
+    const second = search(key, new AbortController().signal);
+
+    firstController.abort();
+    await expectAbort(first);
+    const late = search(key, new AbortController().signal);
+    expect(deferred.fetch).toHaveBeenCalledTimes(1);
+
+    deferred.requests[0].respond(ZURICH);
+    expect(await second).toEqual(ZURICH);
+    expect(await late).toEqual(ZURICH);
+  });
+
+  it('starts a new request for a caller arriving in the same tick as the last abort', async () => {
+    const key = nextKey();
+    const controller = new AbortController();
+    const first = search(key, controller.signal);
+    controller.abort();
+    const second = search(key, new AbortController().signal);
+
+    await expectAbort(first);
+    expect(deferred.fetch).toHaveBeenCalledTimes(2);
+    expect(deferred.requests[0].signal?.aborted).toBe(true);
+    expect(deferred.requests[1].signal?.aborted).toBe(false);
+    deferred.requests[1].respond(ZURICH);
+    expect(await second).toEqual(ZURICH);
+  });
+
+  it('serves the stored value once the request completes', async () => {
+    const key = nextKey();
+    const first = search(key, new AbortController().signal);
+    deferred.requests[0].respond(ZURICH);
+    await first;
+
+    expect(await search(key)).toEqual(ZURICH);
+    expect(deferred.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('starts a new request after every waiter of the last one aborted', async () => {
+    const key = nextKey();
+    const controller = new AbortController();
+    const first = search(key, controller.signal);
+    controller.abort();
+    await expectAbort(first);
+
+    const retry = search(key, new AbortController().signal);
+    expect(deferred.fetch).toHaveBeenCalledTimes(2);
+    deferred.requests[1].respond(ZURICH);
+    expect(await retry).toEqual(ZURICH);
+  });
+});
@@ -0,0 +1,282 @@
+import { ForecastOptions, GeocodingResult, RequestOptions, WeatherProvider, WeatherResponse } from '../types/weather';
+import { geocodingResultsSchema, weatherResponseSchema } from '../schemas/weather';
+import { Schema, SchemaError, number, object } from './schema';
+
+// Provider responses are cached in memory and in localStorage. Fresh entries are
+// served without a request; stale ones are served immediately while a background
+// request replaces them (stale-while-revalidate). Expired entries are refetched.
+
+const STORAGE_PREFIX = 'weather.cache.';
+// When each persisted entry was stored, so pruning does not have to read them all
+const INDEX_KEY = 'weather.cacheIndex';
+const MAX_PERSISTED_ENTRIES = 60;
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+interface CachePolicy {
+  // Served without revalidation while younger than this
+  ttl: number;
+  // Served while revalidating until this age; older entries are refetched first
+  maxStale: number;
+}
+
+// Forecast models update every few hours; place names practically never change
+export const CACHE_POLICIES = {
+  forecast: { ttl: 30 * MINUTE, maxStale: 6 * HOUR },
+  geocode: { ttl: 7 * DAY, maxStale: 30 * DAY },
+  reverseGeocode: { ttl: 7 * DAY, maxStale: 30 * DAY }
+} satisfies Record<string, CachePolicy>;
+
+interface CacheEntry<T> {
+  value: T;
+  storedAt: number;
+}
+
+// A request shared by everyone waiting for the same key. It is only aborted once
+// every caller that passed a signal has given up on it.
+interface PendingRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiting: number;
+}
+
+const memory = new Map<string, CacheEntry<unknown>>();
+const pending = new Map<string, PendingRequest>();
+
+const getPersistedKeys = (): string[] => {
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(STORAGE_PREFIX)) keys.push(key.slice(STORAGE_PREFIX.length));
+  }
+  return keys;
+};
+
+let persistedIndex: Map<string, number> | null = null;
+
+// Loaded once and matched against the stored keys: entries that are gone are dropped,
+// and entries the index does not know (e.g. written by another tab) are pruned first
+const getIndex = (): Map<string, number> => {
+  if (persistedIndex) return persistedIndex;
+
+  let stored: Record<string, unknown> = {};
+  try {
+    const parsed = JSON.parse(localStorage.getItem(INDEX_KEY) || '{}');
+    if (parsed && typeof parsed === 'object') stored = parsed;
+  } catch {
+    // Rebuilt from the stored keys below
+  }
+  persistedIndex = new Map(getPersistedKeys().map(key => {
+    const storedAt = stored[key];
+    return [key, typeof storedAt === 'number' ? storedAt : 0];
+  }));
+  return persistedIndex;
+};
+
+const saveIndex = (index: Map<string, number>) => {
+  localStorage.setItem(INDEX_KEY, JSON.stringify(Object.fromEntries(index)));
+};
+
+// Drop the oldest persisted entries until at most `keep` remain
+const prunePersisted = (keep: number) => {
+  const index = getIndex();
+  [...index.entries()]
+    .sort((a, b) => a[1] - b[1])
+    .slice(0, Math.max(index.size - keep, 0))
+    .forEach(([key]) => {
+      localStorage.removeItem(STORAGE_PREFIX + key);
+      index.delete(key);
+    });
+};
+
+const persistEntry = (key: string, entry: CacheEntry<unknown>) => {
+  const index = getIndex();
+  localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(entry));
+  index.set(key, entry.storedAt);
+  saveIndex(index);
+};
+
+const writeEntry = <T>(key: string, value: T) => {
+  const entry: CacheEntry<T> = { value, storedAt: Date.now() };
+  memory.set(key, entry);
+
+  try {
+    if (!getIndex().has(key)) prunePersisted(MAX_PERSISTED_ENTRIES - 1);
+    persistEntry(key, entry);
+  } catch (error) {
+    // Most likely the storage quota; make room once and give up on persisting otherwise
+    try {
+      prunePersisted(MAX_PERSISTED_ENTRIES / 2);
+      persistEntry(key, entry);
+    } catch {
+      console.warn('Could not persist cache entry:', error);
+    }
+  }
+};
+
+const removePersisted = (key: string) => {
+  try {
+    localStorage.removeItem(STORAGE_PREFIX + key);
+    const index = getIndex();
+    if (index.delete(key)) saveIndex(index);
+  } catch {
+    // Left for pruning
+  }
+};
+
+// Persisted entries may predate response validation or have been edited, so they are
+// checked against the schema once when first read; entries that fail are dropped
+const readEntry = <T>(key: string, schema: Schema<T>): CacheEntry<T> | null => {
+  const cached = memory.get(key);
+  if (cached) return cached as CacheEntry<T>;
+
+  let stored: unknown;
+  try {
+    const text = localStorage.getItem(STORAGE_PREFIX + key);
+    if (!text) return null;
+    stored = JSON.parse(text);
+  } catch {
+    removePersisted(key);
+    return null;
+  }
+
+  try {
+    const entry: CacheEntry<T> = object({ value: schema, storedAt: number() }).parse(stored);
+    memory.set(key, entry);
+    return entry;
+  } catch (error) {
+    if (!(error instanceof SchemaError)) throw error;
+    console.warn(`Dropping invalid cache entry ${key}:`, error.message);
+    removePersisted(key);
+    return null;
+  }
+};
+
+const abortError = (signal: AbortSignal) =>
+  signal.reason instanceof DOMException ? signal.reason : new DOMException('Request aborted', 'AbortError');
+
+// Share one request between callers asking for the same key at the same time
+const fetchAndStore = <T>(
+  key: string,
+  fetcher: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> => {
+  if (signal?.aborted) return Promise.reject(abortError(signal));
+
+  let request = pending.get(key);
+  if (!request) {
+    const controller = new AbortController();
+    const promise = fetcher(controller.signal)
+      .then(value => {
+        writeEntry(key, value);
+        return value;
+      })
+      .finally(() => {
+        if (pending.get(key) === request) pending.delete(key);
+      });
+    request = { promise, controller, waiting: 0 };
+    pending.set(key, request);
+  }
+
+  const shared = request;
+  // Background revalidation passes no signal and keeps the request alive
+  shared.waiting += signal ? 1 : Infinity;
+  if (!signal) return shared.promise as Promise<T>;
+
+  return new Promise<T>((resolve, reject) => {
+    const handleAbort = () => {
+      reject(abortError(signal));
+      if (--shared.waiting > 0) return;
+      shared.controller.abort();
+      // The aborted fetch settles later; callers arriving before then need a new request
+      if (pending.get(key) === shared) pending.delete(key);
+    };
+    signal.addEventListener('abort', handleAbort, { once: true });
+    (shared.promise as Promise<T>)
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', handleAbort));
+  });
+};
+
+export interface CachedCallOptions<T> extends RequestOptions {
+  // Skip the cache and always ask the provider
+  refresh?: boolean;
+  // Called with the fresh value after stale data was served
+  onRevalidate?: (value: T) => void;
+}
+
+// `schema` checks values read back from storage; the fetcher validates its own responses
+export const cachedCall = async <T>(
+  key: string,
+  policy: CachePolicy,
+  schema: Schema<T>,
+  fetcher: (signal: AbortSignal) => Promise<T>,
+  options: CachedCallOptions<T> = {}
+): Promise<T> => {
+  const entry = options.refresh ? null : readEntry(key, schema);
+  const age = entry ? Date.now() - entry.storedAt : Infinity;
+
+  if (entry && age < policy.ttl) return entry.value;
+
+  if (entry && age < policy.maxStale) {
+    fetchAndStore(key, fetcher)
+      .then(value => options.onRevalidate?.(value))
+      .catch(error => console.warn(`Revalidation failed for ${key}:`, error));
+    return entry.value;
+  }
+
+  return fetchAndStore(key, fetcher, options.signal);
+};
+
+// When the cached value for a key was fetched, or null if it is not cached
+export const getCachedAt = (key: string): number | null => {
+  const storedAt = memory.get(key)?.storedAt ?? getIndex().get(key);
+  return storedAt || null;
+};
+
+// Round to ~1 km so nearby requests for the same place share an entry
+const roundCoordinate = (value: number) => value.toFixed(2);
+
+export const getForecastCacheKey = (providerId: string, lat: number, lon: number, lang = ''): string =>
+  `${providerId}:forecast:${roundCoordinate(lat)},${roundCoordinate(lon)}:${lang}`;
+
+export const getAstroCacheKey = (lat: number, lon: number): string =>
+  `7timer:astro:${roundCoordinate(lat)},${roundCoordinate(lon)}`;
+
+// Forecasts need no scope: providers without a usable key fail instead of answering
+const getGeocodeCacheKey = (providerId: string, scope: string, query: string, limit?: number): string =>
+  `${providerId}:geocode:${scope}:${query.trim().toLowerCase()}:${limit ?? ''}`;
+
+const getReverseGeocodeCacheKey = (providerId: string, scope: string, lat: number, lon: number): string =>
+  `${providerId}:reverse:${scope}:${roundCoordinate(lat)},${roundCoordinate(lon)}`;
+
+// A provider with the same id and name whose calls go through the cache
+export const withCache = (provider: WeatherProvider): WeatherProvider => ({
+  ...provider,
+  fetchForecast: (lat: number, lon: number, options: ForecastOptions = {}) =>
+    cachedCall<WeatherResponse>(
+      getForecastCacheKey(provider.id, lat, lon, options.lang),
+      CACHE_POLICIES.forecast,
+      weatherResponseSchema,
+      (signal) => provider.fetchForecast(lat, lon, { lang: options.lang, signal }),
+      { refresh: options.refresh, onRevalidate: options.onRevalidate, signal: options.signal }
+    ),
+  geocode: (query: string, limit?: number, options: RequestOptions = {}) =>
+    cachedCall<GeocodingResult[]>(
+      getGeocodeCacheKey(provider.id, provider.cacheScope?.() ?? '', query, limit),
+      CACHE_POLICIES.geocode,
+      geocodingResultsSchema,
+      (signal) => provider.geocode(query, limit, { signal }),
+      options
+    ),
+  reverseGeocode: (lat: number, lon: number, options: RequestOptions = {}) =>
+    cachedCall<GeocodingResult[]>(
+      getReverseGeocodeCacheKey(provider.id, provider.cacheScope?.() ?? '', lat, lon),
+      CACHE_POLICIES.reverseGeocode,
+      geocodingResultsSchema,
+      (signal) => provider.reverseGeocode(lat, lon, { signal }),
+      options
+    )
+});
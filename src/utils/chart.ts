@@ -0,0 +1,49 @@
+// Small helpers for the hand-drawn SVG charts
+
+export interface Scale {
+  (value: number): number;
+  ticks: number[];
+}
+
+// Round a step up to 1, 2 or 5 times a power of ten
+const getNiceStep = (roughStep: number): number => {
+  const magnitude = 10 ** Math.floor(Math.log10(roughStep));
+  const residual = roughStep / magnitude;
+  if (residual > 5) return 10 * magnitude;
+  if (residual > 2) return 5 * magnitude;
+  if (residual > 1) return 2 * magnitude;
+  return magnitude;
+};
+
+// Map [min, max] onto [bottom, top] pixels, widening the domain to nice round ticks
+export const createLinearScale = (
+  values: number[],
+  bottom: number,
+  top: number,
+  { tickCount = 4, includeZero = false, minSpan = 1 } = {}
+): Scale => {
+  let min = Math.min(...values, ...(includeZero ? [0] : []));
+  let max = Math.max(...values, ...(includeZero ? [0] : []));
+  if (max - min < minSpan) {
+    const middle = (max + min) / 2;
+    min = includeZero && min >= 0 ? 0 : middle - minSpan / 2;
+    max = min + minSpan;
+  }
+
+  const step = getNiceStep((max - min) / tickCount);
+  const niceMin = Math.floor(min / step) * step;
+  const niceMax = Math.ceil(max / step) * step;
+  const ticks: number[] = [];
+  for (let tick = niceMin; tick <= niceMax + step / 2; tick += step) {
+    ticks.push(Math.round(tick / step) * step);
+  }
+
+  const scale = ((value: number) =>
+    bottom - ((value - niceMin) / (niceMax - niceMin)) * (bottom - top)) as Scale;
+  scale.ticks = ticks;
+  return scale;
+};
+
+// SVG path through a series of points
+export const getLinePath = (points: Array<[number, number]>): string =>
+  points.map(([x, y], index) => `${index === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`).join(' ');
@@ -0,0 +1,63 @@
+import { ComparisonColumn, DayExtremes } from '../types/comparison';
+import { ForecastOptions, GeocodingResult, ProcessedWeatherData, WeatherProvider } from '../types/weather';
+import { getFavoriteId } from './favorites';
+import { processWeatherData } from './weatherApi';
+import { isAbortError, toWeatherApiError } from './errors';
+
+export const MIN_COMPARISON_CITIES = 2;
+export const MAX_COMPARISON_CITIES = 6;
+
+export const isInComparison = (cities: GeocodingResult[], city: GeocodingResult): boolean =>
+  cities.some(existing => getFavoriteId(existing) === getFavoriteId(city));
+
+export const addComparisonCity = (cities: GeocodingResult[], city: GeocodingResult): GeocodingResult[] =>
+  isInComparison(cities, city) || cities.length >= MAX_COMPARISON_CITIES ? cities : [...cities, city];
+
+export const removeComparisonCity = (cities: GeocodingResult[], city: GeocodingResult): GeocodingResult[] =>
+  cities.filter(existing => getFavoriteId(existing) !== getFavoriteId(city));
+
+// Fetch every city at once; one failing city, whether the request or its data is
+// at fault, becomes a failed column and does not hide the others
+export const fetchComparison = async (
+  cities: GeocodingResult[],
+  provider: WeatherProvider,
+  options?: ForecastOptions
+): Promise<ComparisonColumn[]> => {
+  const results = await Promise.allSettled(
+    cities.map(async city => processWeatherData(await provider.fetchForecast(city.lat, city.lon, options)))
+  );
+
+  // A cancelled selection is not a provider failure; the caller drops it
+  const aborted = results.find(result => result.status === 'rejected' && isAbortError(result.reason));
+  if (aborted?.status === 'rejected') throw aborted.reason;
+
+  return results.map((result, index) => result.status === 'fulfilled'
+    ? { city: cities[index], days: result.value }
+    : { city: cities[index], days: [], error: toWeatherApiError(result.reason, provider.name) });
+};
+
+// Union of all forecast days, so cities in different timezones line up by calendar date
+export const getComparisonDates = (columns: ComparisonColumn[]): string[] =>
+  [...new Set(columns.flatMap(column => column.days.map(day => day.date)))].sort();
+
+export const getComparisonDay = (column: ComparisonColumn, date: string): ProcessedWeatherData | undefined =>
+  column.days.find(day => day.date === date);
+
+// Indexes of the columns sharing the highest value. Precipitation and wind are only
+// highlighted when there is some, so a dry, calm day does not mark every city.
+const findHighest = (values: Array<number | undefined>, requirePositive = true): number[] => {
+  const present = values.filter((value): value is number => value !== undefined);
+  if (present.length < 2) return [];
+  const highest = Math.max(...present);
+  if (requirePositive && highest <= 0) return [];
+  return values.flatMap((value, index) => value === highest ? [index] : []);
+};
+
+export const getDayExtremes = (columns: ComparisonColumn[], date: string): DayExtremes => {
+  const days = columns.map(column => getComparisonDay(column, date));
+  return {
+    warmest: findHighest(days.map(day => day?.tempMax), false),
+    wettest: findHighest(days.map(day => day?.precipitation)),
+    windiest: findHighest(days.map(day => day?.windSpeed))
+  };
+};
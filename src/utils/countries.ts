@@ -0,0 +1,54 @@
+export type Region = 'africa' | 'asia' | 'europe' | 'northAmerica' | 'southAmerica' | 'oceania' | 'unknown';
+
+const countryRegions: Record<string, Region> = {
+  // Africa
+  'NG': 'africa', 'EG': 'africa', 'ZA': 'africa', 'KE': 'africa', 'MA': 'africa',
+  'GH': 'africa', 'ET': 'africa', 'TN': 'africa', 'DZ': 'africa',
+
+  // Asia
+  'CN': 'asia', 'IN': 'asia', 'JP': 'asia', 'KR': 'asia', 'TH': 'asia', 'ID': 'asia',
+  'PH': 'asia', 'SG': 'asia', 'MY': 'asia', 'VN': 'asia', 'BD': 'asia', 'PK': 'asia',
+  'IR': 'asia', 'SA': 'asia', 'AE': 'asia', 'TR': 'asia',
+
+  // Europe
+  'GB': 'europe', 'FR': 'europe', 'DE': 'europe', 'IT': 'europe', 'ES': 'europe',
+  'NL': 'europe', 'RU': 'europe', 'UA': 'europe', 'PL': 'europe', 'CZ': 'europe',
+  'AT': 'europe', 'CH': 'europe', 'SE': 'europe', 'NO': 'europe', 'DK': 'europe',
+  'FI': 'europe', 'BE': 'europe', 'PT': 'europe', 'GR': 'europe', 'IE': 'europe',
+  'HU': 'europe',
+
+  // North America
+  'US': 'northAmerica', 'CA': 'northAmerica', 'MX': 'northAmerica',
+
+  // South America
+  'BR': 'southAmerica', 'AR': 'southAmerica', 'CL': 'southAmerica', 'PE': 'southAmerica',
+  'CO': 'southAmerica', 'VE': 'southAmerica', 'EC': 'southAmerica', 'BO': 'southAmerica',
+  'UY': 'southAmerica', 'PY': 'southAmerica', 'GY': 'southAmerica', 'SR': 'southAmerica',
+
+  // Oceania
+  'AU': 'oceania', 'NZ': 'oceania', 'FJ': 'oceania', 'WS': 'oceania', 'TO': 'oceania',
+  'VU': 'oceania'
+};
+
+const regionEmojis: Record<Region, string> = {
+  africa: '🌍',
+  asia: '🌏',
+  europe: '🌍',
+  northAmerica: '🌎',
+  southAmerica: '🌎',
+  oceania: '🌏',
+  unknown: '🌍'
+};
+
+export const getRegion = (countryCode: string): Region => countryRegions[countryCode] || 'unknown';
+
+export const getRegionEmoji = (region: Region): string => regionEmojis[region];
+
+// Country name in the given locale; codes the browser does not know are shown as-is
+export const getCountryName = (countryCode: string, locale: string): string => {
+  try {
+    return new Intl.DisplayNames([locale], { type: 'region' }).of(countryCode) || countryCode;
+  } catch {
+    return countryCode;
+  }
+};
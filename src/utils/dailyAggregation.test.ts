@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { WeatherDataPoint } from '../types/weather';
+import { weatherResponseSchema } from '../schemas/weather';
+import { aggregateDailyForecasts, aggregateDay, groupByDay } from './dailyAggregation';
+import recordedForecast from './__fixtures__/openweathermap-forecast.json';
+
+// Two days of 3-hour entries for Zurich (UTC+2), from 2024-06-01 00:00 to 2024-06-02 21:00 UTC
+const forecast = weatherResponseSchema.parse(recordedForecast);
+
+const countByDay = (list: WeatherDataPoint[], utcOffset: number) =>
+  Object.fromEntries([...groupByDay(list, utcOffset)].map(([date, entries]) => [date, entries.length]));
+
+const withCondition = (entry: WeatherDataPoint, id: number, main: string, icon: string): WeatherDataPoint => ({
+  ...entry,
+  weather: [{ id, main, description: main.toLowerCase(), icon }]
+});
+
+describe('groupByDay', () => {
+  it('groups entries by calendar day at the location', () => {
+    expect(countByDay(forecast.list, 7200)).toEqual({ '2024-06-01': 8, '2024-06-02': 8 });
+  });
+
+  it('moves evening entries to the previous day west of Greenwich', () => {
+    expect(countByDay(forecast.list, -5 * 3600)).toEqual({ '2024-05-31': 2, '2024-06-01': 8, '2024-06-02': 6 });
+  });
+
+  it('moves afternoon UTC entries to the next day far east of Greenwich', () => {
+    expect(countByDay(forecast.list, 9 * 3600)).toEqual({ '2024-06-01': 5, '2024-06-02': 8, '2024-06-03': 3 });
+  });
+
+  it('keeps each day in chronological order whatever order the entries arrive in', () => {
+    const days = groupByDay([...forecast.list].reverse(), 7200);
+    const first = days.get('2024-06-01')!.map(entry => entry.dt);
+    expect(first).toEqual([...first].sort((a, b) => a - b));
+    expect([...days.keys()]).toEqual(['2024-06-01', '2024-06-02']);
+  });
+});
+
+describe('aggregateDailyForecasts', () => {
+  const [rainyDay, fairDay] = aggregateDailyForecasts(forecast.list, forecast.city.timezone);
+
+  it('builds one forecast per local day', () => {
+    expect(aggregateDailyForecasts(forecast.list, 9 * 3600).map(day => day.date))
+      .toEqual(['2024-06-01', '2024-06-02', '2024-06-03']);
+  });
+
+  it('takes the lowest minimum and highest maximum of the whole day', () => {
+    expect(rainyDay.tempMin).toBeCloseTo(12.23);
+    expect(rainyDay.tempMax).toBeCloseTo(22.37);
+    expect(fairDay.tempMin).toBeCloseTo(13.39);
+    expect(fairDay.tempMax).toBeCloseTo(25.65);
+  });
+
+  it('uses the entry closest to local midday as the headline temperature', () => {
+    expect(rainyDay.temperature).toBeCloseTo(18.73);
+  });
+
+  it('totals precipitation over the day', () => {
+    expect(rainyDay.rain).toBeCloseTo(2.15);
+    expect(rainyDay.snow).toBe(0);
+    expect(rainyDay.precipitation).toBeCloseTo(2.15);
+    expect(rainyDay.precipitationType).toBe('rain');
+    expect(fairDay.precipitation).toBe(0);
+    expect(fairDay.precipitationType).toBe('none');
+  });
+
+  it('takes the strongest wind, highest gust and highest chance of precipitation', () => {
+    expect(rainyDay.windSpeed).toBeCloseTo(6.4 * 3.6);
+    expect(rainyDay.windGust).toBeCloseTo(11.3 * 3.6);
+    expect(rainyDay.windDirection).toBe('W');
+    expect(rainyDay.pop).toBe(94);
+  });
+
+  it('picks the most significant condition, then the most frequent', () => {
+    // Three rainy entries outweigh five cloudy ones; light rain occurs more often than moderate
+    expect(rainyDay.conditionId).toBe(500);
+    expect(rainyDay.description).toBe('light rain');
+    // Clouds outrank clear sky; few clouds occur twice, scattered clouds once
+    expect(fairDay.conditionId).toBe(801);
+    expect(fairDay.icon).toBe('02d');
+  });
+});
+
+describe('aggregateDay', () => {
+  const entries = forecast.list.slice(8);
+
+  it('lets a single thunderstorm decide the day', () => {
+    const stormy = entries.map((entry, index) => index === 7 ? withCondition(entry, 211, 'Thunderstorm', '11n') : entry);
+    const day = aggregateDay('2024-06-02', stormy, 7200);
+    expect(day.conditionId).toBe(211);
+    expect(day.icon).toBe('11d');
+  });
+
+  it('reports mixed precipitation when rain and snow fall on the same day', () => {
+    const mixed = entries.map((entry, index) =>
+      index === 0 ? { ...entry, snow: { '3h': 1.5 } } : index === 1 ? { ...entry, rain: { '3h': 0.5 } } : entry);
+    const day = aggregateDay('2024-06-02', mixed, 7200);
+    expect(day.precipitationType).toBe('mixed');
+    expect(day.precipitation).toBeCloseTo(2);
+  });
+});
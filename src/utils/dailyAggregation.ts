@@ -0,0 +1,109 @@
+import { WeatherDataPoint, ProcessedWeatherData, PrecipitationType } from '../types/weather';
+import { getLocationDateKey, getLocationHour, formatDateKey } from './time';
+
+const MAX_DAYS = 7;
+
+// Higher ranks win when choosing the condition that represents a whole day
+const getConditionSeverity = (conditionId: number): number => {
+  if (conditionId >= 200 && conditionId < 300) return 7; // Thunderstorm
+  if (conditionId >= 600 && conditionId < 700) return 6; // Snow
+  if (conditionId >= 500 && conditionId < 600) return 5; // Rain
+  if (conditionId >= 300 && conditionId < 400) return 4; // Drizzle
+  if (conditionId >= 700 && conditionId < 800) return 3; // Mist, fog, haze...
+  if (conditionId > 800) return 2; // Clouds
+  return 1; // Clear
+};
+
+// Convert wind degrees to direction
+export const getWindDirection = (degrees: number): string => {
+  const directions = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE', 'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'];
+  const index = Math.round(degrees / 22.5) % 16;
+  return directions[index];
+};
+
+const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Group 3-hour entries by calendar day at the location, preserving chronological order
+export const groupByDay = (list: WeatherDataPoint[], utcOffset: number): Map<string, WeatherDataPoint[]> => {
+  const days = new Map<string, WeatherDataPoint[]>();
+  [...list].sort((a, b) => a.dt - b.dt).forEach((entry) => {
+    const key = getLocationDateKey(entry.dt, utcOffset);
+    const entries = days.get(key);
+    if (entries) {
+      entries.push(entry);
+    } else {
+      days.set(key, [entry]);
+    }
+  });
+  return days;
+};
+
+// Pick the most significant condition; among equals, the most frequent, then the earliest
+const getDominantEntry = (entries: WeatherDataPoint[]): WeatherDataPoint => {
+  const counts = new Map<number, number>();
+  entries.forEach(entry => counts.set(entry.weather[0].id, (counts.get(entry.weather[0].id) || 0) + 1));
+
+  return entries.reduce((best, entry) => {
+    const bestSeverity = getConditionSeverity(best.weather[0].id);
+    const severity = getConditionSeverity(entry.weather[0].id);
+    if (severity !== bestSeverity) return severity > bestSeverity ? entry : best;
+    return (counts.get(entry.weather[0].id) || 0) > (counts.get(best.weather[0].id) || 0) ? entry : best;
+  });
+};
+
+// The entry nearest to local midday stands for the day's headline temperature
+const getMiddayEntry = (entries: WeatherDataPoint[], utcOffset: number): WeatherDataPoint =>
+  entries.reduce((best, entry) => {
+    const hour = getLocationHour(entry.dt, utcOffset);
+    const bestHour = getLocationHour(best.dt, utcOffset);
+    return Math.abs(hour - 12) < Math.abs(bestHour - 12) ? entry : best;
+  });
+
+// Summarise every 3-hour entry of one day into a daily forecast
+export const aggregateDay = (date: string, entries: WeatherDataPoint[], utcOffset: number): ProcessedWeatherData => {
+  const dominant = getDominantEntry(entries);
+  const midday = getMiddayEntry(entries, utcOffset);
+  const windiest = entries.reduce((best, entry) => entry.wind.speed > best.wind.speed ? entry : best);
+
+  const rain = entries.reduce((sum, entry) => sum + (entry.rain?.['3h'] || 0), 0);
+  const snow = entries.reduce((sum, entry) => sum + (entry.snow?.['3h'] || 0), 0);
+  const maxGust = Math.max(...entries.map(entry => entry.wind.gust ?? entry.wind.speed));
+
+  let precipitationType: PrecipitationType = 'none';
+  if (rain > 0 && snow > 0) precipitationType = 'mixed';
+  else if (snow > 0) precipitationType = 'snow';
+  else if (rain > 0) precipitationType = 'rain';
+
+  return {
+    date,
+    dayOfWeek: formatDateKey(date, { weekday: 'long' }),
+    temperature: midday.main.temp,
+    tempMin: Math.min(...entries.map(entry => entry.main.temp_min)),
+    tempMax: Math.max(...entries.map(entry => entry.main.temp_max)),
+    conditionId: dominant.weather[0].id,
+    condition: dominant.weather[0].main,
+    description: dominant.weather[0].description,
+    humidity: Math.round(average(entries.map(entry => entry.main.humidity))),
+    windSpeed: windiest.wind.speed * 3.6, // Convert m/s to km/h
+    windGust: maxGust * 3.6,
+    windDirection: getWindDirection(windiest.wind.deg),
+    precipitation: rain + snow,
+    rain,
+    snow,
+    precipitationType,
+    pop: Math.round(Math.max(...entries.map(entry => entry.pop)) * 100),
+    cloudCover: Math.round(average(entries.map(entry => entry.clouds.all)) / 10), // Convert percentage to 0-10 scale
+    // Daily summaries always use the daytime icon
+    icon: dominant.weather[0].icon.replace(/n$/, 'd'),
+    pressure: average(entries.map(entry => entry.main.pressure)),
+    visibility: average(entries.map(entry => entry.visibility)) / 1000 // Convert to km
+  };
+};
+
+// Build up to a week of daily forecasts from a list of 3-hour entries,
+// with days running midnight to midnight at the location (utcOffset in seconds)
+export const aggregateDailyForecasts = (list: WeatherDataPoint[], utcOffset: number): ProcessedWeatherData[] => {
+  return [...groupByDay(list, utcOffset).entries()]
+    .slice(0, MAX_DAYS)
+    .map(([date, entries]) => aggregateDay(date, entries, utcOffset));
+};
@@ -0,0 +1,199 @@
+import { WeatherResponse, WeatherDataPoint, WeatherAlert } from '../types/weather';
+import { getSunTimes, isSunUp } from './astronomy';
+import { getLocationDateKey } from './time';
+import { hashString } from './hash';
+
+const SLOT_HOURS = 3;
+const SLOT_COUNT = 40;
+
+// Small, fast seeded PRNG (mulberry32) returning values in [0, 1)
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const getDayOfYear = (date: Date) =>
+  Math.floor((date.getTime() - Date.UTC(date.getUTCFullYear(), 0, 1)) / 86400000) + 1;
+
+// Seasonal mean temperature: warm, steady tropics and cold, strongly seasonal high latitudes
+const getSeasonalTemperature = (lat: number, dayOfYear: number) => {
+  const absLat = Math.abs(lat);
+  const annualMean = 29 - 0.35 * absLat;
+  const seasonalAmplitude = 0.15 * absLat;
+  // Warmest around late July in the north and late January in the south
+  const phase = Math.cos((2 * Math.PI * (dayOfYear - 200)) / 365);
+  return annualMean + seasonalAmplitude * phase * (lat >= 0 ? 1 : -1);
+};
+
+const getCondition = (
+  precipitating: boolean,
+  heavy: boolean,
+  temp: number,
+  cloudCover: number,
+  humidity: number,
+  convective: boolean
+) => {
+  if (precipitating) {
+    if (temp <= 0.5) {
+      return heavy
+        ? { id: 601, main: 'Snow', description: 'snow', icon: '13' }
+        : { id: 600, main: 'Snow', description: 'light snow', icon: '13' };
+    }
+    if (convective) {
+      return { id: 201, main: 'Thunderstorm', description: 'thunderstorm with rain', icon: '11' };
+    }
+    return heavy
+      ? { id: 501, main: 'Rain', description: 'moderate rain', icon: '10' }
+      : { id: 500, main: 'Rain', description: 'light rain', icon: '10' };
+  }
+  if (humidity >= 95 && cloudCover < 60) return { id: 701, main: 'Mist', description: 'mist', icon: '50' };
+  if (cloudCover >= 85) return { id: 804, main: 'Clouds', description: 'overcast clouds', icon: '04' };
+  if (cloudCover >= 60) return { id: 803, main: 'Clouds', description: 'broken clouds', icon: '04' };
+  if (cloudCover >= 35) return { id: 802, main: 'Clouds', description: 'scattered clouds', icon: '03' };
+  if (cloudCover >= 15) return { id: 801, main: 'Clouds', description: 'few clouds', icon: '02' };
+  return { id: 800, main: 'Clear', description: 'clear sky', icon: '01' };
+};
+
+// Official-style warnings for runs of consecutive thunderstorm slots, so alerts can be tried out
+const getThunderstormAlerts = (list: WeatherDataPoint[]): WeatherAlert[] =>
+  list
+    .filter(entry => entry.weather[0].main === 'Thunderstorm')
+    .reduce<WeatherAlert[]>((alerts, entry) => {
+      const last = alerts[alerts.length - 1];
+      if (last && last.end === entry.dt) {
+        last.end = entry.dt + SLOT_HOURS * 3600;
+      } else {
+        alerts.push({
+          sender_name: 'Demo weather service',
+          event: 'Thunderstorm warning',
+          start: entry.dt,
+          end: entry.dt + SLOT_HOURS * 3600,
+          description: 'Thunderstorms with heavy rain and strong gusts are expected.',
+          tags: ['Thunderstorm']
+        });
+      }
+      return alerts;
+    }, []);
+
+// Generate a reproducible 5-day forecast for a location. The same coordinates
+// (to ~1 km) on the same UTC day always produce the same weather.
+export const generateDemoWeather = (lat: number, lon: number, now: Date = new Date()): WeatherResponse => {
+  const dayStart = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  const dateKey = new Date(dayStart).toISOString().slice(0, 10);
+  const random = createRandom(hashString(`${lat.toFixed(2)},${lon.toFixed(2)},${dateKey}`));
+
+  // Weather systems: two slow waves with seeded periods and phases give
+  // multi-day spells of high pressure (fair) and low pressure (unsettled)
+  const slowPeriod = 72 + random() * 60;
+  const fastPeriod = 24 + random() * 24;
+  const slowPhase = random() * 2 * Math.PI;
+  const fastPhase = random() * 2 * Math.PI;
+  const baseWindDirection = random() * 360;
+  const seasonalTemp = getSeasonalTemperature(lat, getDayOfYear(now));
+  const utcOffset = Math.round(lon / 15) * 3600;
+
+  // Generate from the start of the day so a slot's weather does not depend on the time of the request
+  const firstSlot = Math.floor((now.getTime() - dayStart) / (SLOT_HOURS * 3600 * 1000));
+  const list: WeatherDataPoint[] = [];
+
+  for (let slot = 0; slot < firstSlot + SLOT_COUNT; slot++) {
+    const hours = slot * SLOT_HOURS;
+    const noise = random() - 0.5;
+    const convectiveRoll = random();
+    if (slot < firstSlot) continue;
+
+    const date = new Date(dayStart + hours * 3600 * 1000);
+    const solarHour = (date.getUTCHours() + lon / 15 + 24) % 24;
+    const isDay = isSunUp(date.getTime() / 1000, lat, lon);
+
+    // -1 (deep low) .. +1 (strong high)
+    const system =
+      0.65 * Math.sin((2 * Math.PI * hours) / slowPeriod + slowPhase) +
+      0.35 * Math.sin((2 * Math.PI * hours) / fastPeriod + fastPhase);
+
+    const cloudCover = clamp(45 - 55 * system + noise * 20, 0, 100);
+    // Clear skies allow a larger day/night swing; peak around 15:00 solar time
+    const diurnalAmplitude = 3 + 4 * (1 - cloudCover / 100);
+    const diurnal = diurnalAmplitude * Math.cos((2 * Math.PI * (solarHour - 15)) / 24);
+    const temp = seasonalTemp + diurnal + system * 2 + noise;
+    const humidity = clamp(65 - 20 * system - diurnal * 2 + noise * 10, 15, 100);
+
+    const precipitating = system < -0.35 && cloudCover > 70;
+    const heavy = system < -0.7;
+    const convective = precipitating && temp > 20 && isDay && convectiveRoll < 0.4;
+    const condition = getCondition(precipitating, heavy, temp, cloudCover, humidity, convective);
+
+    let precipitation = 0;
+    if (precipitating) {
+      precipitation = convective
+        ? 4 + convectiveRoll * 10
+        : (heavy ? 2 : 0.3) + Math.abs(system) * (heavy ? 4 : 1.5);
+    }
+
+    const windSpeed = clamp(2 + 7 * Math.abs(system) + (convective ? 5 : 0) + noise * 2, 0.5, 25);
+    const feelsLike = temp < 10
+      ? temp - windSpeed * 0.7
+      : temp > 26 ? temp + (humidity - 40) * 0.1 : temp;
+    const isSnow = condition.main === 'Snow';
+
+    list.push({
+      dt: Math.floor(date.getTime() / 1000),
+      main: {
+        temp,
+        feels_like: feelsLike,
+        temp_min: temp - 0.5,
+        temp_max: temp + 0.5,
+        pressure: Math.round(1013 + 18 * system),
+        humidity: Math.round(humidity)
+      },
+      weather: [{
+        id: condition.id,
+        main: condition.main,
+        description: condition.description,
+        icon: condition.icon + (isDay ? 'd' : 'n')
+      }],
+      clouds: { all: Math.round(cloudCover) },
+      wind: {
+        speed: windSpeed,
+        // Wind backs ahead of a low and veers behind it
+        deg: (baseWindDirection + system * 90 + 360) % 360,
+        gust: windSpeed * (convective ? 2 : 1.4)
+      },
+      visibility: condition.main === 'Mist' ? 2000 : isSnow ? 3000 : precipitating ? 7000 : 10000,
+      pop: precipitating ? clamp(0.6 + Math.abs(system) * 0.4, 0, 1) : clamp((cloudCover - 60) / 200, 0, 0.2),
+      rain: precipitation > 0 && !isSnow ? { '3h': precipitation } : undefined,
+      snow: precipitation > 0 && isSnow ? { '3h': precipitation } : undefined,
+      dt_txt: date.toISOString().replace('T', ' ').slice(0, 19)
+    });
+  }
+
+  const today = getLocationDateKey(Math.floor(now.getTime() / 1000), utcOffset);
+  const { sunrise, sunset } = getSunTimes(lat, lon, today, utcOffset);
+
+  return {
+    cod: '200',
+    message: 0,
+    cnt: list.length,
+    list,
+    city: {
+      id: 1,
+      name: 'Demo City',
+      coord: { lat, lon },
+      country: 'XX',
+      population: 1000000,
+      timezone: utcOffset,
+      // 0 when the sun does not rise or set that day
+      sunrise: sunrise ?? 0,
+      sunset: sunset ?? 0
+    },
+    alerts: getThunderstormAlerts(list)
+  };
+};
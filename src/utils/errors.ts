@@ -0,0 +1,46 @@
+export type WeatherErrorKind = 'auth' | 'rate-limit' | 'network' | 'bad-response' | 'not-found';
+
+// Error raised by every provider call so the UI can explain what went wrong
+export class WeatherApiError extends Error {
+  readonly kind: WeatherErrorKind;
+  readonly status?: number;
+  // Seconds to wait before retrying, when the service says so
+  readonly retryAfter?: number;
+
+  constructor(kind: WeatherErrorKind, message: string, options: { status?: number; retryAfter?: number } = {}) {
+    super(message);
+    this.name = 'WeatherApiError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfter = options.retryAfter;
+  }
+}
+
+// Build an error from a failed HTTP status, or the status code in an error body
+export const errorFromStatus = (status: number, service: string, retryAfter?: number): WeatherApiError => {
+  if (status === 401 || status === 403) {
+    return new WeatherApiError('auth', `${service} rejected the API key`, { status });
+  }
+  if (status === 429) {
+    return new WeatherApiError('rate-limit', `${service} rate limit exceeded`, { status, retryAfter });
+  }
+  if (status === 404) {
+    return new WeatherApiError('not-found', `${service} has no data for this location`, { status });
+  }
+  return new WeatherApiError('bad-response', `${service} returned status ${status}`, { status });
+};
+
+// Build an error from a failed HTTP response
+export const errorFromResponse = (response: Response, service: string): WeatherApiError =>
+  errorFromStatus(response.status, service, Number(response.headers.get('Retry-After')) || undefined);
+
+// Cancelled requests reject with an AbortError; callers drop them instead of reporting them
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+// Wrap anything thrown while loading or processing data in a WeatherApiError
+export const toWeatherApiError = (error: unknown, service: string): WeatherApiError => {
+  if (error instanceof WeatherApiError) return error;
+  const detail = error instanceof Error ? error.message : String(error);
+  return new WeatherApiError('bad-response', `Unexpected response from ${service}: ${detail}`);
+};
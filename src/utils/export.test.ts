@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { weatherResponseSchema } from '../schemas/weather';
+import { MessageKey, TranslationParams, translate } from '../i18n';
+import { ForecastExport, createExportFile } from './export';
+import { aggregateDailyForecasts } from './dailyAggregation';
+import { createFormatter } from './format';
+import { METRIC_UNITS } from './units';
+import recordedForecast from './__fixtures__/openweathermap-forecast.json';
+
+const forecast = weatherResponseSchema.parse(recordedForecast);
+
+const data: ForecastExport = {
+  city: { name: 'Zürich', country: 'CH', lat: 47.3769, lon: 8.5417 },
+  source: 'OpenWeatherMap',
+  utcOffset: forecast.city.timezone,
+  days: aggregateDailyForecasts(forecast.list, forecast.city.timezone),
+  list: forecast.list
+};
+
+const format = createFormatter({ units: METRIC_UNITS, locale: 'en-US' });
+const t = (key: MessageKey, params?: TranslationParams) => translate('en', key, params);
+const now = new Date(Date.UTC(2024, 5, 1, 6));
+
+// Rows of a CSV file keyed by column name
+const readCsv = (content: string): Record<string, string>[] => {
+  const [header, ...rows] = content.trim().split('\r\n').map(line => line.split(','));
+  return rows.map(row => Object.fromEntries(header.map((column, index) => [column, row[index]])));
+};
+
+describe('createExportFile', () => {
+  it('names the file after the place and first day', () => {
+    expect(createExportFile('daily-csv', data, format, t, 'en', now).filename).toBe('forecast-zurich-2024-06-01-daily.csv');
+  });
+
+  it('writes one daily CSV row per day in metric units', () => {
+    const rows = readCsv(createExportFile('daily-csv', data, format, t, 'en', now).content);
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({
+      date: '2024-06-01',
+      condition_id: '500',
+      temp_min_c: '12.2',
+      temp_max_c: '22.4',
+      pop_pct: '94'
+    });
+  });
+
+  it('exports daily cloud cover as a percentage', () => {
+    const rows = readCsv(createExportFile('daily-csv', data, format, t, 'en', now).content);
+    expect(rows.map(row => row.cloud_cover_pct)).toEqual(['80', '10']);
+  });
+
+  it('keeps the provider cloud cover of each 3-hour slot', () => {
+    const rows = readCsv(createExportFile('hourly-csv', data, format, t, 'en', now).content);
+    expect(rows).toHaveLength(16);
+    expect(rows[0]).toMatchObject({ time_utc: '2024-06-01T00:00:00.000Z', local_time: '2024-06-01 02:00', cloud_cover_pct: '75' });
+  });
+});
@@ -0,0 +1,246 @@
+import { GeocodingResult, ProcessedWeatherData, WeatherDataPoint } from '../types/weather';
+import { Formatter } from './format';
+import { getWeatherIcon } from './weatherApi';
+import { toLocationDate } from './time';
+import { Language, MessageKey, TranslationParams, getLocalizedCityName, translateCondition } from '../i18n';
+
+// Downloads of the forecast on screen. Data exports keep the app's metric units, named in
+// the column headers; the calendar is written for people and uses the chosen units.
+
+export type ExportFormat = 'daily-csv' | 'daily-json' | 'hourly-csv' | 'hourly-json' | 'ics';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['daily-csv', 'daily-json', 'hourly-csv', 'hourly-json', 'ics'];
+
+export interface ForecastExport {
+  city: GeocodingResult;
+  // Name of the data source
+  source: string;
+  // Location UTC offset in seconds
+  utcOffset: number;
+  days: ProcessedWeatherData[];
+  // The provider's 3-hourly slots, unprocessed
+  list: WeatherDataPoint[];
+}
+
+export interface ExportFile {
+  filename: string;
+  content: string;
+  mimeType: string;
+}
+
+type Translate = (key: MessageKey, params?: TranslationParams) => string;
+type Cell = string | number;
+
+const round = (value: number, fractionDigits = 1) => Number(value.toFixed(fractionDigits));
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+// Quote cells that need it, and stop spreadsheets reading text as a formula
+const toCsvCell = (cell: Cell): string => {
+  if (typeof cell === 'number') return String(cell);
+  const text = /^[=+\-@]/.test(cell) ? `'${cell}` : cell;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (header: string[], rows: Cell[][]): string =>
+  [header, ...rows].map(row => row.map(toCsvCell).join(',')).join('\r\n') + '\r\n';
+
+// Daily cloud cover is kept on a 0-10 scale; the file has it as a percentage
+const getDailyCsv = (days: ProcessedWeatherData[]): string =>
+  toCsv(
+    [
+      'date', 'condition_id', 'condition', 'description',
+      'temperature_c', 'temp_min_c', 'temp_max_c', 'humidity_pct',
+      'wind_speed_kmh', 'wind_gust_kmh', 'wind_direction',
+      'precipitation_mm', 'rain_mm', 'snow_mm', 'precipitation_type', 'pop_pct',
+      'cloud_cover_pct', 'pressure_hpa', 'visibility_km'
+    ],
+    days.map(day => [
+      day.date, day.conditionId, day.condition, day.description,
+      round(day.temperature), round(day.tempMin), round(day.tempMax), day.humidity,
+      round(day.windSpeed), round(day.windGust), day.windDirection,
+      round(day.precipitation), round(day.rain), round(day.snow), day.precipitationType, day.pop,
+      day.cloudCover * 10, round(day.pressure), round(day.visibility)
+    ])
+  );
+
+// The provider's slots as delivered: wind in m/s, visibility in metres, pop from 0 to 1
+const getHourlyCsv = (list: WeatherDataPoint[], utcOffset: number): string =>
+  toCsv(
+    [
+      'time_utc', 'local_time', 'condition_id', 'condition', 'description',
+      'temp_c', 'feels_like_c', 'temp_min_c', 'temp_max_c', 'pressure_hpa', 'humidity_pct',
+      'cloud_cover_pct', 'wind_speed_ms', 'wind_deg', 'wind_gust_ms', 'visibility_m',
+      'pop', 'rain_3h_mm', 'snow_3h_mm'
+    ],
+    list.map(entry => [
+      new Date(entry.dt * 1000).toISOString(),
+      toLocationDate(entry.dt, utcOffset).toISOString().slice(0, 16).replace('T', ' '),
+      entry.weather[0]?.id ?? '', entry.weather[0]?.main ?? '', entry.weather[0]?.description ?? '',
+      round(entry.main.temp), round(entry.main.feels_like), round(entry.main.temp_min), round(entry.main.temp_max),
+      round(entry.main.pressure), entry.main.humidity,
+      entry.clouds.all, round(entry.wind.speed), Math.round(entry.wind.deg), round(entry.wind.gust ?? entry.wind.speed),
+      entry.visibility,
+      round(entry.pop, 2), round(entry.rain?.['3h'] ?? 0), round(entry.snow?.['3h'] ?? 0)
+    ])
+  );
+
+// Days hold unrounded measurements; one decimal is plenty in a file
+const roundDay = (day: ProcessedWeatherData): ProcessedWeatherData => ({
+  ...day,
+  temperature: round(day.temperature),
+  tempMin: round(day.tempMin),
+  tempMax: round(day.tempMax),
+  windSpeed: round(day.windSpeed),
+  windGust: round(day.windGust),
+  precipitation: round(day.precipitation),
+  rain: round(day.rain),
+  snow: round(day.snow),
+  pressure: round(day.pressure),
+  visibility: round(day.visibility)
+});
+
+const getJson = (data: ForecastExport, key: 'days' | 'list', now: Date): string =>
+  JSON.stringify({
+    location: {
+      name: data.city.name,
+      state: data.city.state,
+      country: data.city.country,
+      lat: data.city.lat,
+      lon: data.city.lon,
+      utcOffset: data.utcOffset
+    },
+    source: data.source,
+    exportedAt: now.toISOString(),
+    [key]: key === 'days' ? data.days.map(roundDay) : data.list
+  }, null, 2);
+
+// iCalendar text values escape backslashes, separators and line breaks
+const escapeText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 bytes continue on the next line after a space
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let bytes = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (bytes + size > 75) {
+      parts.push(current);
+      current = ' ';
+      bytes = 1;
+    }
+    current += char;
+    bytes += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n');
+};
+
+const toIcsDate = (dateKey: string) => dateKey.replace(/-/g, '');
+
+const getNextDateKey = (dateKey: string) =>
+  new Date(Date.parse(`${dateKey}T00:00:00Z`) + 86400000).toISOString().slice(0, 10);
+
+const toIcsTimestamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// One all-day event per forecast day, e.g. "☀️ 21°/12° Clear sky"
+const getCalendar = (data: ForecastExport, format: Formatter, t: Translate, language: Language, now: Date): string => {
+  const cityName = getLocalizedCityName(data.city, language);
+  const location = [cityName, data.city.state, data.city.country].filter(Boolean).join(', ');
+
+  const events = data.days.flatMap(day => {
+    const condition = capitalize(translateCondition(language, day.conditionId, day.description));
+    const details = [
+      condition,
+      `${format.temperature(day.tempMax)} / ${format.temperature(day.tempMin)}`,
+      `${t('card.precipitation')}: ${format.precipitation(day.precipitation)} • ${t('card.chance', { pop: day.pop })}`,
+      `${t('card.wind')}: ${format.windSpeed(day.windSpeed)} ${day.windDirection} • ${t('card.gusts', { speed: format.windSpeed(day.windGust) })}`,
+      `${t('card.humidity')}: ${day.humidity}%`,
+      `${t('card.pressure')}: ${format.pressure(day.pressure)}`,
+      '',
+      t('export.calendarSource', { source: data.source })
+    ];
+
+    return [
+      'BEGIN:VEVENT',
+      `UID:${day.date}-${data.city.lat.toFixed(4)}_${data.city.lon.toFixed(4)}@weather-app`,
+      `DTSTAMP:${toIcsTimestamp(now)}`,
+      `DTSTART;VALUE=DATE:${toIcsDate(day.date)}`,
+      `DTEND;VALUE=DATE:${toIcsDate(getNextDateKey(day.date))}`,
+      `SUMMARY:${escapeText(`${getWeatherIcon(day.icon)} ${format.temperatureShort(day.tempMax)}/${format.temperatureShort(day.tempMin)} ${condition}`)}`,
+      `DESCRIPTION:${escapeText(details.join('\n'))}`,
+      `LOCATION:${escapeText(location)}`,
+      `GEO:${data.city.lat};${data.city.lon}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    ];
+  });
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Weather App//Forecast Export//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(t('export.calendarName', { city: cityName }))}`,
+    ...events,
+    'END:VCALENDAR'
+  ].map(foldLine).join('\r\n') + '\r\n';
+};
+
+// "forecast-zurich-2024-06-01-daily.csv"
+const getFilename = (data: ForecastExport, suffix: string) => {
+  const slug = data.city.name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  return ['forecast', slug || 'location', data.days[0]?.date, suffix].filter(Boolean).join('-');
+};
+
+export const createExportFile = (
+  exportFormat: ExportFormat,
+  data: ForecastExport,
+  format: Formatter,
+  t: Translate,
+  language: Language,
+  now: Date = new Date()
+): ExportFile => {
+  switch (exportFormat) {
+    case 'daily-csv':
+      return { filename: `${getFilename(data, 'daily')}.csv`, content: getDailyCsv(data.days), mimeType: 'text/csv' };
+    case 'daily-json':
+      return { filename: `${getFilename(data, 'daily')}.json`, content: getJson(data, 'days', now), mimeType: 'application/json' };
+    case 'hourly-csv':
+      return {
+        filename: `${getFilename(data, '3-hourly')}.csv`,
+        content: getHourlyCsv(data.list, data.utcOffset),
+        mimeType: 'text/csv'
+      };
+    case 'hourly-json':
+      return { filename: `${getFilename(data, '3-hourly')}.json`, content: getJson(data, 'list', now), mimeType: 'application/json' };
+    case 'ics':
+      return {
+        filename: `${getFilename(data, 'calendar')}.ics`,
+        content: getCalendar(data, format, t, language, now),
+        mimeType: 'text/calendar'
+      };
+  }
+};
+
+// Save a file through a temporary link. CSV starts with a byte order mark so Excel reads it as UTF-8.
+export const downloadFile = ({ filename, content, mimeType }: ExportFile) => {
+  const body = mimeType === 'text/csv' ? `\uFEFF${content}` : content;
+  const url = URL.createObjectURL(new Blob([body], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url));
+};
@@ -0,0 +1,53 @@
+import { FavoriteLocation } from '../types/favorites';
+import { GeocodingResult } from '../types/weather';
+
+const STORAGE_KEY = 'weather.favorites';
+
+// Geocoders return slightly different coordinates for the same place, so compare at ~10 m
+export const getFavoriteId = (city: Pick<GeocodingResult, 'lat' | 'lon'>): string =>
+  `${city.lat.toFixed(4)},${city.lon.toFixed(4)}`;
+
+export const isFavorite = (favorites: FavoriteLocation[], city: GeocodingResult): boolean =>
+  favorites.some(favorite => favorite.id === getFavoriteId(city));
+
+export const addFavorite = (favorites: FavoriteLocation[], city: GeocodingResult): FavoriteLocation[] =>
+  isFavorite(favorites, city) ? favorites : [...favorites, { id: getFavoriteId(city), city }];
+
+export const removeFavorite = (favorites: FavoriteLocation[], id: string): FavoriteLocation[] =>
+  favorites.filter(favorite => favorite.id !== id);
+
+export const renameFavorite = (favorites: FavoriteLocation[], id: string, label: string): FavoriteLocation[] =>
+  favorites.map(favorite =>
+    favorite.id === id ? { ...favorite, label: label.trim() || undefined } : favorite
+  );
+
+// Move the favorite at `from` so that it ends up at index `to`
+export const moveFavorite = (favorites: FavoriteLocation[], from: number, to: number): FavoriteLocation[] => {
+  if (from === to || from < 0 || from >= favorites.length) return favorites;
+  const reordered = [...favorites];
+  const [moved] = reordered.splice(from, 1);
+  reordered.splice(Math.min(Math.max(to, 0), reordered.length), 0, moved);
+  return reordered;
+};
+
+export const loadFavorites = (): FavoriteLocation[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed)
+      ? parsed.filter((favorite: FavoriteLocation) =>
+          typeof favorite?.city?.lat === 'number' && typeof favorite?.city?.lon === 'number')
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveFavorites = (favorites: FavoriteLocation[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(favorites));
+  } catch (error) {
+    console.warn('Could not save favorites:', error);
+  }
+};
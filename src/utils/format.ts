@@ -0,0 +1,86 @@
+import { Preferences } from '../types/preferences';
+import {
+  unitLabels,
+  convertTemperature,
+  convertWindSpeed,
+  convertPressure,
+  convertDistance,
+  convertPrecipitation
+} from './units';
+import { formatDateKey, formatLocationTime, formatViewerTime } from './time';
+
+// Display formatting for metric forecast values according to the user's preferences
+export interface Formatter {
+  locale: string;
+  number: (value: number, fractionDigits?: number) => string;
+  temperature: (celsius: number) => string;
+  // Degrees without the unit letter, for compact min/max pairs
+  temperatureShort: (celsius: number) => string;
+  windSpeed: (kmh: number) => string;
+  pressure: (hPa: number) => string;
+  distance: (km: number) => string;
+  precipitation: (mm: number) => string;
+  // Calendar day (YYYY-MM-DD) and times of day in the chosen locale
+  date: (dateKey: string, options: Intl.DateTimeFormatOptions) => string;
+  time: (dt: number, utcOffset: number) => string;
+  viewerTime: (dt: number) => string;
+  // Day and time in the viewer's timezone of an epoch ms timestamp
+  dateTime: (timestamp: number) => string;
+  // "12 h 34 min" for a number of seconds
+  duration: (seconds: number) => string;
+  // "5 minutes ago" style age of something fetched at `timestamp` (epoch ms)
+  age: (timestamp: number, now?: number) => string;
+}
+
+export const resolveLocale = (locale: string): string =>
+  locale === 'auto' ? navigator.language || 'en-US' : locale;
+
+export const createFormatter = ({ units, locale }: Preferences): Formatter => {
+  const resolvedLocale = resolveLocale(locale);
+  const number = (value: number, fractionDigits = 0) =>
+    value.toLocaleString(resolvedLocale, {
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits
+    });
+
+  return {
+    locale: resolvedLocale,
+    number,
+    temperature: (celsius) =>
+      `${number(convertTemperature(celsius, units.temperature))}${unitLabels.temperature[units.temperature]}`,
+    temperatureShort: (celsius) => `${number(convertTemperature(celsius, units.temperature))}°`,
+    windSpeed: (kmh) => {
+      const value = convertWindSpeed(kmh, units.windSpeed);
+      if (units.windSpeed === 'beaufort') return `${unitLabels.windSpeed.beaufort} ${value}`;
+      return `${number(value, units.windSpeed === 'ms' ? 1 : 0)} ${unitLabels.windSpeed[units.windSpeed]}`;
+    },
+    pressure: (hPa) =>
+      `${number(convertPressure(hPa, units.pressure), units.pressure === 'inHg' ? 2 : 0)} ${unitLabels.pressure[units.pressure]}`,
+    distance: (km) =>
+      `${number(convertDistance(km, units.distance), units.distance === 'mi' ? 1 : 0)} ${unitLabels.distance[units.distance]}`,
+    precipitation: (mm) =>
+      `${number(convertPrecipitation(mm, units.precipitation), units.precipitation === 'in' ? 2 : 1)} ${unitLabels.precipitation[units.precipitation]}`,
+    date: (dateKey, options) => formatDateKey(dateKey, options, resolvedLocale),
+    time: (dt, utcOffset) => formatLocationTime(dt, utcOffset, resolvedLocale),
+    viewerTime: (dt) => formatViewerTime(dt, resolvedLocale),
+    dateTime: (timestamp) => new Date(timestamp).toLocaleString(resolvedLocale, {
+      weekday: 'short',
+      day: 'numeric',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit'
+    }),
+    duration: (seconds) => {
+      const minutes = Math.round(seconds / 60);
+      return `${number(Math.floor(minutes / 60))} h ${number(minutes % 60)} min`;
+    },
+    age: (timestamp, now = Date.now()) => {
+      const relative = new Intl.RelativeTimeFormat(resolvedLocale, { numeric: 'auto' });
+      const minutes = Math.round(Math.min(timestamp - now, 0) / 60000);
+      if (Math.abs(minutes) < 60) return relative.format(minutes, 'minute');
+      const hours = Math.round(minutes / 60);
+      if (Math.abs(hours) < 24) return relative.format(hours, 'hour');
+      return relative.format(Math.round(hours / 24), 'day');
+    }
+  };
+};
@@ -0,0 +1,91 @@
+import { GeocodingResult, RequestOptions, WeatherProvider } from '../types/weather';
+import { isAbortError } from './errors';
+
+export type GeolocationErrorKind = 'denied' | 'timeout' | 'unavailable' | 'unsupported';
+
+export class GeolocationError extends Error {
+  kind: GeolocationErrorKind;
+
+  constructor(kind: GeolocationErrorKind, message: string) {
+    super(message);
+    this.name = 'GeolocationError';
+    this.kind = kind;
+  }
+}
+
+export interface Coordinates {
+  lat: number;
+  lon: number;
+}
+
+const GEOLOCATION_TIMEOUT_MS = 10000;
+
+// Great-circle distance between two points
+export const getDistanceKm = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+// Accepts "48.85, 2.35", "48.85 2.35", "48.85°, 2.35°" and "48.85N 2.35E"
+export const parseCoordinates = (query: string): Coordinates | null => {
+  const match = query.trim().match(
+    /^(-?\d{1,2}(?:\.\d+)?)\s*°?\s*([NS])?\s*[,;\s]\s*(-?\d{1,3}(?:\.\d+)?)\s*°?\s*([EW])?$/i
+  );
+  if (!match) return null;
+
+  const [, latText, latHemisphere, lonText, lonHemisphere] = match;
+  const lat = parseFloat(latText) * (latHemisphere?.toUpperCase() === 'S' ? -1 : 1);
+  const lon = parseFloat(lonText) * (lonHemisphere?.toUpperCase() === 'W' ? -1 : 1);
+  if (Math.abs(lat) > 90 || Math.abs(lon) > 180) return null;
+  return { lat, lon };
+};
+
+export const formatCoordinates = ({ lat, lon }: Coordinates): string =>
+  `${lat.toFixed(4)}°, ${lon.toFixed(4)}°`;
+
+// Wrap the callback-based Geolocation API, mapping its error codes onto our kinds
+export const getCurrentPosition = (): Promise<Coordinates> =>
+  new Promise((resolve, reject) => {
+    if (!('geolocation' in navigator)) {
+      reject(new GeolocationError('unsupported', 'Geolocation is not supported by this browser'));
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve({ lat: position.coords.latitude, lon: position.coords.longitude }),
+      (error) => {
+        switch (error.code) {
+          case error.PERMISSION_DENIED:
+            reject(new GeolocationError('denied', error.message));
+            break;
+          case error.TIMEOUT:
+            reject(new GeolocationError('timeout', error.message));
+            break;
+          default:
+            reject(new GeolocationError('unavailable', error.message));
+        }
+      },
+      { timeout: GEOLOCATION_TIMEOUT_MS, maximumAge: 10 * 60 * 1000 }
+    );
+  });
+
+// Name a position through the provider's reverse geocoder. The forecast stays at the
+// exact coordinates; when no place name is available the coordinates become the name.
+export const resolveLocation = async (
+  coordinates: Coordinates,
+  provider: WeatherProvider,
+  options?: RequestOptions
+): Promise<GeocodingResult> => {
+  try {
+    const [place] = await provider.reverseGeocode(coordinates.lat, coordinates.lon, options);
+    if (place) return { ...place, ...coordinates };
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.warn('Reverse geocoding failed:', error);
+  }
+  return { name: formatCoordinates(coordinates), country: '', ...coordinates };
+};
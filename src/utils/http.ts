@@ -0,0 +1,54 @@
+import { WeatherApiError, errorFromResponse, errorFromStatus, isAbortError } from './errors';
+import { Schema, SchemaError } from './schema';
+import { errorBodySchema } from '../schemas/weather';
+
+// An error status inside a body that came with HTTP 200, as some services send
+const getErrorBodyStatus = (data: unknown): number | null => {
+  try {
+    const status = Number(errorBodySchema.parse(data).cod);
+    return status >= 400 ? status : null;
+  } catch {
+    return null;
+  }
+};
+
+// Fetch JSON and check it against the schema, turning every failure mode except
+// cancellation into a WeatherApiError. Only data of the expected shape is returned.
+export const fetchJson = async <T>(
+  url: string,
+  service: string,
+  schema: Schema<T>,
+  signal?: AbortSignal
+): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(url, { signal });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw new WeatherApiError('network', `Could not reach ${service}`);
+  }
+
+  if (!response.ok) {
+    throw errorFromResponse(response, service);
+  }
+
+  let data: unknown;
+  try {
+    data = await response.json();
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw new WeatherApiError('bad-response', `${service} returned invalid JSON`);
+  }
+
+  const errorStatus = getErrorBodyStatus(data);
+  if (errorStatus !== null) {
+    throw errorFromStatus(errorStatus, service);
+  }
+
+  try {
+    return schema.parse(data);
+  } catch (error) {
+    if (!(error instanceof SchemaError)) throw error;
+    throw new WeatherApiError('bad-response', `${service} returned unexpected data: ${error.message}`);
+  }
+};
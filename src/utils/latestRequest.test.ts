@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WeatherProvider } from '../types/weather';
+import { createDeferredFetch } from '../test/deferredFetch';
+import { createMemoryStorage } from '../test/memoryStorage';
+import { createLatestRequestTracker } from './latestRequest';
+import { openWeatherMapProvider } from './weatherApi';
+import { withCache } from './cache';
+import { isAbortError } from './errors';
+import forecast from './__fixtures__/openweathermap-forecast.json';
+
+const forecastFor = (name: string) => ({ ...forecast, city: { ...forecast.city, name } });
+
+// Loads a forecast the way the app does: a newer load aborts the older one, and only the
+// latest may put its result on screen
+const createLoader = (provider: WeatherProvider) => {
+  const tracker = createLatestRequestTracker();
+  const applied: string[] = [];
+  const load = async (lat: number, lon: number) => {
+    const { signal, isLatest } = tracker.start();
+    try {
+      const data = await provider.fetchForecast(lat, lon, { signal });
+      if (isLatest()) applied.push(data.city.name);
+    } catch (error) {
+      if (!isLatest() || isAbortError(error)) return;
+      throw error;
+    }
+  };
+  return { load, applied };
+};
+
+describe('latest forecast request', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', createMemoryStorage({ 'weather.openWeatherMapApiKey': 'test-key' }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('aborts the superseded request and applies only the newer one', async () => {
+    const deferred = createDeferredFetch();
+    vi.stubGlobal('fetch', deferred.fetch);
+    const { load, applied } = createLoader(withCache(openWeatherMapProvider));
+
+    const zurich = load(47.3769, 8.5417);
+    const paris = load(48.8566, 2.3522);
+    expect(deferred.requests[0].signal?.aborted).toBe(true);
+
+    deferred.requests[1].respond(forecastFor('Paris'));
+    await Promise.all([zurich, paris]);
+    expect(applied).toEqual(['Paris']);
+  });
+
+  it('applies a reload of the same place started while the first load is in flight', async () => {
+    const deferred = createDeferredFetch();
+    vi.stubGlobal('fetch', deferred.fetch);
+    const { load, applied } = createLoader(withCache(openWeatherMapProvider));
+
+    const first = load(47.3769, 8.5417);
+    const reload = load(47.3769, 8.5417);
+    deferred.requests[deferred.requests.length - 1].respond(forecastFor('Zurich'));
+    await Promise.all([first, reload]);
+    expect(applied).toEqual(['Zurich']);
+  });
+
+  it('never applies a superseded result, even when it arrives after the newer one', async () => {
+    const deferred = createDeferredFetch({ ignoreAbort: true });
+    vi.stubGlobal('fetch', deferred.fetch);
+    const { load, applied } = createLoader(openWeatherMapProvider);
+
+    const zurich = load(47.3769, 8.5417);
+    const paris = load(48.8566, 2.3522);
+
+    deferred.requests[1].respond(forecastFor('Paris'));
+    await paris;
+    deferred.requests[0].respond(forecastFor('Zurich'));
+    await zurich;
+    expect(applied).toEqual(['Paris']);
+  });
+
+  it('applies every result of loads that do not overlap', async () => {
+    const deferred = createDeferredFetch();
+    vi.stubGlobal('fetch', deferred.fetch);
+    const { load, applied } = createLoader(openWeatherMapProvider);
+
+    const zurich = load(47.3769, 8.5417);
+    deferred.requests[0].respond(forecastFor('Zurich'));
+    await zurich;
+    const paris = load(48.8566, 2.3522);
+    deferred.requests[1].respond(forecastFor('Paris'));
+    await paris;
+    expect(applied).toEqual(['Zurich', 'Paris']);
+  });
+});
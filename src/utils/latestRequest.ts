@@ -0,0 +1,26 @@
+// Requests where only the most recent one matters, such as the forecast on screen.
+// Starting a request aborts the one before it, and a request that has been
+// superseded must not apply its result even if it completes anyway.
+
+export interface LatestRequest {
+  signal: AbortSignal;
+  isLatest: () => boolean;
+}
+
+export interface LatestRequestTracker {
+  start: () => LatestRequest;
+}
+
+export const createLatestRequestTracker = (): LatestRequestTracker => {
+  let latestId = 0;
+  let controller: AbortController | null = null;
+
+  return {
+    start: () => {
+      controller?.abort();
+      controller = new AbortController();
+      const id = ++latestId;
+      return { signal: controller.signal, isLatest: () => latestId === id };
+    }
+  };
+};
@@ -0,0 +1,72 @@
+import { FavoriteLocation } from '../types/favorites';
+import { GeocodingResult, WeatherResponse } from '../types/weather';
+import { WeatherApiError } from './errors';
+import { getFavoriteId } from './favorites';
+import { weatherResponseSchema } from '../schemas/weather';
+import { SchemaError } from './schema';
+
+// The last successful forecast of every saved location is kept without expiry, so it
+// can still be shown when the network is gone long after the response cache gave up.
+
+const STORAGE_KEY = 'weather.lastKnown';
+
+export interface LastKnownForecast {
+  providerId: string;
+  response: WeatherResponse;
+  // Epoch ms at which the provider returned the forecast
+  fetchedAt: number;
+}
+
+type LastKnownStore = Record<string, LastKnownForecast>;
+
+const loadStore = (): LastKnownStore => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : null;
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+const saveStore = (store: LastKnownStore) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  } catch (error) {
+    console.warn('Could not save last known forecast:', error);
+  }
+};
+
+// Stored before responses were validated, or edited by hand, so checked again before use
+export const getLastKnownForecast = (city: GeocodingResult): LastKnownForecast | null => {
+  const forecast = loadStore()[getFavoriteId(city)];
+  if (!forecast) return null;
+  try {
+    return { ...forecast, response: weatherResponseSchema.parse(forecast.response, 'response') };
+  } catch (error) {
+    if (!(error instanceof SchemaError)) throw error;
+    console.warn('Ignoring invalid last known forecast:', error.message);
+    return null;
+  }
+};
+
+// Callers only remember saved locations; see pruneLastKnownForecasts
+export const saveLastKnownForecast = (city: GeocodingResult, forecast: LastKnownForecast) => {
+  const id = getFavoriteId(city);
+  const store = loadStore();
+  const existing = store[id];
+  if (existing && existing.fetchedAt >= forecast.fetchedAt) return;
+  saveStore({ ...store, [id]: forecast });
+};
+
+// Forget forecasts of locations that are no longer saved
+export const pruneLastKnownForecasts = (favorites: FavoriteLocation[]) => {
+  const store = loadStore();
+  const ids = new Set(favorites.map(favorite => favorite.id));
+  const kept = Object.fromEntries(Object.entries(store).filter(([id]) => ids.has(id)));
+  if (Object.keys(kept).length !== Object.keys(store).length) saveStore(kept);
+};
+
+// Only connectivity problems fall back to stored data; a bad key or unknown place should still be reported
+export const isOfflineError = (error: WeatherApiError): boolean =>
+  error.kind === 'network' || !navigator.onLine;
@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryStorage } from '../test/memoryStorage';
+import { DEFAULT_PREFERENCES, loadPreferences } from './preferences';
+
+const storePreferences = (preferences: unknown) => {
+  vi.stubGlobal('localStorage', createMemoryStorage({ 'weather.preferences': JSON.stringify(preferences) }));
+};
+
+describe('loadPreferences', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('uses the defaults when nothing is stored', () => {
+    vi.stubGlobal('localStorage', createMemoryStorage());
+    expect(loadPreferences()).toEqual(DEFAULT_PREFERENCES);
+  });
+
+  it('keeps known units and replaces unknown ones with the default for that quantity', () => {
+    storePreferences({ units: { temperature: 'fahrenheit', windSpeed: 'furlongs', pressure: 'inHg' }, locale: 'auto' });
+    expect(loadPreferences().units).toEqual({
+      ...DEFAULT_PREFERENCES.units,
+      temperature: 'fahrenheit',
+      pressure: 'inHg'
+    });
+  });
+
+  it('ignores units inherited from the object prototype', () => {
+    storePreferences({ units: { temperature: 'toString' } });
+    expect(loadPreferences().units.temperature).toBe(DEFAULT_PREFERENCES.units.temperature);
+  });
+
+  it('keeps a valid locale in its canonical form', () => {
+    storePreferences({ locale: 'de-ch' });
+    expect(loadPreferences().locale).toBe('de-CH');
+  });
+
+  it('falls back to the default locale when the stored one is not a language tag', () => {
+    ['not a locale', '', 42].forEach(locale => {
+      storePreferences({ locale });
+      expect(loadPreferences().locale).toBe(DEFAULT_PREFERENCES.locale);
+    });
+  });
+});
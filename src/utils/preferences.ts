@@ -0,0 +1,60 @@
+import { Preferences, UnitPreferences } from '../types/preferences';
+import { METRIC_UNITS, unitLabels } from './units';
+
+const STORAGE_KEY = 'weather.preferences';
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  units: METRIC_UNITS,
+  locale: 'auto'
+};
+
+const isKnownUnit = <K extends keyof UnitPreferences>(key: K, value: unknown): value is UnitPreferences[K] =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(unitLabels[key], value);
+
+// Stored units that are not (or no longer) known fall back to the default for that quantity
+const readUnits = (stored: unknown): UnitPreferences => {
+  const units = stored && typeof stored === 'object' ? stored as Record<string, unknown> : {};
+  const readUnit = <K extends keyof UnitPreferences>(key: K): UnitPreferences[K] =>
+    isKnownUnit(key, units[key]) ? units[key] : DEFAULT_PREFERENCES.units[key];
+  return {
+    temperature: readUnit('temperature'),
+    windSpeed: readUnit('windSpeed'),
+    pressure: readUnit('pressure'),
+    distance: readUnit('distance'),
+    precipitation: readUnit('precipitation')
+  };
+};
+
+// A stored locale that is not a valid BCP 47 tag would make every number format throw
+const readLocale = (stored: unknown): string => {
+  if (stored === 'auto' || typeof stored !== 'string') return DEFAULT_PREFERENCES.locale;
+  try {
+    return Intl.getCanonicalLocales(stored)[0] ?? DEFAULT_PREFERENCES.locale;
+  } catch {
+    return DEFAULT_PREFERENCES.locale;
+  }
+};
+
+// Load saved preferences, filling in defaults for anything missing or unreadable
+export const loadPreferences = (): Preferences => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_PREFERENCES;
+    const parsed = JSON.parse(stored);
+    if (!parsed || typeof parsed !== 'object') return DEFAULT_PREFERENCES;
+    return {
+      units: readUnits(parsed.units),
+      locale: readLocale(parsed.locale)
+    };
+  } catch {
+    return DEFAULT_PREFERENCES;
+  }
+};
+
+export const savePreferences = (preferences: Preferences) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    console.warn('Could not save preferences:', error);
+  }
+};
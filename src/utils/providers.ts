@@ -0,0 +1,31 @@
+import { WeatherProvider } from '../types/weather';
+import { openWeatherMapProvider, demoProvider } from './weatherApi';
+import { sevenTimerProvider } from './sevenTimerApi';
+import { withCache } from './cache';
+
+export const DEFAULT_PROVIDER_ID = openWeatherMapProvider.id;
+
+// Registry of available forecast sources, in the order shown in the picker.
+// Network providers are cached; demo data is generated locally and needs no cache.
+const providers: WeatherProvider[] = [
+  withCache(openWeatherMapProvider),
+  withCache(sevenTimerProvider),
+  demoProvider
+];
+
+// Add a provider, replacing any existing one with the same id
+export const registerProvider = (provider: WeatherProvider) => {
+  const existingIndex = providers.findIndex(p => p.id === provider.id);
+  if (existingIndex >= 0) {
+    providers[existingIndex] = provider;
+  } else {
+    providers.push(provider);
+  }
+};
+
+export const getProviders = (): WeatherProvider[] => [...providers];
+
+// Look up a provider by id, falling back to the default
+export const getProvider = (id: string): WeatherProvider =>
+  providers.find(p => p.id === id) ||
+  providers.find(p => p.id === DEFAULT_PROVIDER_ID)!;
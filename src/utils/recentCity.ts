@@ -0,0 +1,25 @@
+import { GeocodingResult } from '../types/weather';
+
+const STORAGE_KEY = 'weather.lastViewedCity';
+
+// The city on screen when the app was last used, reopened when it starts without a selection
+export const loadLastViewedCity = (): GeocodingResult | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return null;
+    const city = JSON.parse(stored);
+    return typeof city?.lat === 'number' && typeof city?.lon === 'number' && typeof city?.name === 'string'
+      ? city
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveLastViewedCity = (city: GeocodingResult) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(city));
+  } catch (error) {
+    console.warn('Could not save last viewed city:', error);
+  }
+};
@@ -0,0 +1,126 @@
+// Minimal runtime schemas for JSON from outside the app. Each schema checks a value and
+// returns it typed; Infer<typeof schema> gives the same type statically, so the checks
+// and the TypeScript types are written once.
+
+export interface Schema<T> {
+  // Throws a SchemaError naming the first field that does not match
+  parse: (value: unknown, path?: string) => T;
+}
+
+export interface OptionalSchema<T> extends Schema<T | undefined> {
+  optional: true;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: S[K] extends OptionalSchema<unknown> ? K : never;
+}[keyof S];
+
+type Simplify<T> = { [K in keyof T]: T[K] };
+
+type ObjectOf<S extends Shape> = Simplify<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } &
+  { [K in OptionalKeys<S>]?: Infer<S[K]> }
+>;
+
+const describeValue = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (value === undefined) return 'nothing';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'object') return 'an object';
+  if (typeof value === 'string') return JSON.stringify(value.length > 30 ? `${value.slice(0, 30)}…` : value);
+  return String(value);
+};
+
+export class SchemaError extends Error {
+  // Where the mismatch is, e.g. "list[3].main.temp"
+  readonly path: string;
+
+  constructor(path: string, message: string) {
+    super(message);
+    this.name = 'SchemaError';
+    this.path = path;
+  }
+}
+
+const mismatch = (path: string, expected: string, value: unknown) =>
+  new SchemaError(path, `${path || 'response'} should be ${expected} but is ${describeValue(value)}`);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const join = (path: string, key: string) => (path ? `${path}.${key}` : key);
+
+const primitive = <T>(expected: string, check: (value: unknown) => value is T): Schema<T> => ({
+  parse: (value, path = '') => {
+    if (!check(value)) throw mismatch(path, expected, value);
+    return value;
+  }
+});
+
+export const string = (): Schema<string> =>
+  primitive('a string', (value): value is string => typeof value === 'string');
+
+export const number = (): Schema<number> =>
+  primitive('a number', (value): value is number => typeof value === 'number' && Number.isFinite(value));
+
+export const literal = <const T extends readonly string[]>(...values: T): Schema<T[number]> =>
+  primitive(
+    `one of ${values.map(value => `"${value}"`).join(', ')}`,
+    (value): value is T[number] => typeof value === 'string' && (values as readonly string[]).includes(value)
+  );
+
+// Missing and null both count as absent
+export const optional = <T>(schema: Schema<T>): OptionalSchema<T> => ({
+  optional: true,
+  parse: (value, path = '') => (value === undefined || value === null ? undefined : schema.parse(value, path))
+});
+
+export const array = <T>(item: Schema<T>, { minLength = 0 } = {}): Schema<T[]> => ({
+  parse: (value, path = '') => {
+    if (!Array.isArray(value)) throw mismatch(path, 'an array', value);
+    if (value.length < minLength) {
+      throw new SchemaError(path, `${path || 'response'} should have at least ${minLength} entries but has ${value.length}`);
+    }
+    return value.map((entry, index) => item.parse(entry, `${path}[${index}]`));
+  }
+});
+
+export const record = <T>(entry: Schema<T>): Schema<Record<string, T>> => ({
+  parse: (value, path = '') => {
+    if (!isRecord(value)) throw mismatch(path, 'an object', value);
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, entry.parse(item, join(path, key))]));
+  }
+});
+
+// Keeps only the fields in the shape, so unexpected extras never reach the app
+export const object = <S extends Shape>(shape: S): Schema<ObjectOf<S>> => ({
+  parse: (value, path = '') => {
+    if (!isRecord(value)) throw mismatch(path, 'an object', value);
+    const result: Record<string, unknown> = {};
+    Object.entries(shape).forEach(([key, schema]) => {
+      const parsed = schema.parse(value[key], join(path, key));
+      if (parsed !== undefined) result[key] = parsed;
+    });
+    return result as ObjectOf<S>;
+  }
+});
+
+// The first alternative that matches; otherwise the error of each, so the closest one can be spotted
+export const union = <T extends Schema<unknown>[]>(...schemas: T): Schema<Infer<T[number]>> => ({
+  parse: (value, path = '') => {
+    const errors: string[] = [];
+    for (const schema of schemas) {
+      try {
+        return schema.parse(value, path) as Infer<T[number]>;
+      } catch (error) {
+        if (!(error instanceof SchemaError)) throw error;
+        errors.push(error.message);
+      }
+    }
+    throw new SchemaError(path, errors.join('; or '));
+  }
+});
@@ -0,0 +1,11 @@
+// Register the precaching service worker (public/sw.js). Only production builds have a
+// precache list; in development the worker would just serve stale modules.
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register(`${import.meta.env.BASE_URL}sw.js`)
+      .catch(error => console.warn('Service worker registration failed:', error));
+  });
+};
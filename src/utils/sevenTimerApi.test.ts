@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { WeatherResponse } from '../types/weather';
+import { SchemaError } from './schema';
+import { sevenTimerResponseSchema, weatherResponseSchema } from '../schemas/weather';
+import { convertSevenTimerResponse } from './sevenTimerApi';
+import civil from './__fixtures__/7timer-civil.json';
+import civillight from './__fixtures__/7timer-civillight.json';
+import astro from './__fixtures__/7timer-astro.json';
+import meteo from './__fixtures__/7timer-meteo.json';
+
+// Zurich; 7Timer has no timezones, so the offset is estimated from longitude as UTC+1
+const LAT = 47.3769;
+const LON = 8.5417;
+
+const convert = (fixture: unknown): WeatherResponse =>
+  convertSevenTimerResponse(sevenTimerResponseSchema.parse(fixture), LAT, LON);
+
+const at = (year: number, month: number, day: number, hour: number) => Date.UTC(year, month - 1, day, hour) / 1000;
+
+describe('convertSevenTimerResponse', () => {
+  it('produces a response the forecast schema accepts', () => {
+    [civil, civillight, astro, meteo].forEach(fixture => {
+      expect(() => weatherResponseSchema.parse(convert(fixture))).not.toThrow();
+    });
+  });
+
+  it('fills in the location and an estimated timezone', () => {
+    const { city, cnt, list } = convert(civil);
+    expect(city.coord).toEqual({ lat: LAT, lon: LON });
+    expect(city.timezone).toBe(3600);
+    expect(cnt).toBe(list.length);
+    expect(city.sunrise).toBeLessThan(city.sunset);
+    expect(city.sunrise).toBeGreaterThan(at(2024, 6, 1, 0));
+  });
+
+  it('converts civil 3-hour entries using their weather codes', () => {
+    const { list } = convert(civil);
+    expect(list.map(entry => entry.dt)).toEqual([
+      at(2024, 6, 1, 3), at(2024, 6, 1, 9), at(2024, 6, 1, 12), at(2024, 6, 1, 15)
+    ]);
+    expect(list[0]).toMatchObject({
+      main: { temp: 14, temp_min: 14, temp_max: 14, humidity: 81, pressure: 1013 },
+      weather: [{ id: 800, main: 'Clear', icon: '01n' }],
+      clouds: { all: 19 },
+      wind: { speed: 1.8, deg: 225 },
+      pop: 0,
+      dt_txt: '2024-06-01 03:00:00'
+    });
+    expect(list[0].rain).toBeUndefined();
+    expect(list[1]).toMatchObject({
+      weather: [{ id: 500, description: 'light rain', icon: '10d' }],
+      clouds: { all: 56 },
+      wind: { speed: 5.7, deg: 270 },
+      pop: 1,
+      rain: { '3h': 1.875 }
+    });
+    expect(list[2]).toMatchObject({
+      weather: [{ id: 201, main: 'Thunderstorm', icon: '11d' }],
+      clouds: { all: 100 },
+      wind: { speed: 9.4, deg: 315 },
+      rain: { '3h': 21 }
+    });
+    expect(list[3]).toMatchObject({
+      weather: [{ id: 803, icon: '04d' }],
+      clouds: { all: 81 },
+      wind: { speed: 0.2, deg: 0 }
+    });
+  });
+
+  it('places civillight days at local solar noon', () => {
+    const { list } = convert(civillight);
+    expect(list.map(entry => entry.dt)).toEqual([at(2024, 6, 1, 11), at(2024, 6, 2, 11)]);
+    expect(list[0]).toMatchObject({
+      main: { temp: 17, temp_min: 12, temp_max: 22 },
+      weather: [{ id: 500, icon: '10d' }],
+      wind: { speed: 5.7 },
+      pop: 1,
+      dt_txt: '2024-06-01 11:00:00'
+    });
+    expect(list[1]).toMatchObject({
+      main: { temp: 19, temp_min: 13, temp_max: 25 },
+      weather: [{ id: 800, icon: '01d' }],
+      wind: { speed: 1.8 },
+      pop: 0
+    });
+  });
+
+  it('derives astro conditions from cloud cover, precipitation and instability', () => {
+    const { list } = convert(astro);
+    expect(list[0]).toMatchObject({
+      main: { temp: 12, humidity: 32.5 },
+      weather: [{ id: 800, icon: '01n' }],
+      clouds: { all: 6 },
+      wind: { speed: 1.8, deg: 0 }
+    });
+    expect(list[1]).toMatchObject({
+      main: { humidity: 72.5 },
+      weather: [{ id: 803, icon: '04d' }],
+      clouds: { all: 69 },
+      wind: { speed: 5.7, deg: 90 }
+    });
+    // Rain with a lifted index of -6 is a thunderstorm; astro gives no amount, so the lightest class is used
+    expect(list[2]).toMatchObject({
+      main: { humidity: 92.5 },
+      weather: [{ id: 201, icon: '11d' }],
+      clouds: { all: 100 },
+      wind: { speed: 9.4, deg: 180 },
+      pop: 1,
+      rain: { '3h': 0.375 }
+    });
+  });
+
+  it('keeps meteo pressure and splits snow from freezing rain', () => {
+    const { list } = convert(meteo);
+    expect(list.map(entry => entry.dt)).toEqual([at(2024, 1, 15, 3), at(2024, 1, 15, 9), at(2024, 1, 15, 12)]);
+    expect(list[0]).toMatchObject({
+      main: { temp: 2, pressure: 1014, humidity: 76 },
+      weather: [{ id: 801, icon: '02n' }],
+      clouds: { all: 31 }
+    });
+    expect(list[1]).toMatchObject({
+      main: { temp: -1, pressure: 1002, humidity: 93 },
+      weather: [{ id: 601, main: 'Snow', icon: '13d' }],
+      wind: { speed: 14, deg: 0 },
+      snow: { '3h': 39 }
+    });
+    expect(list[1].rain).toBeUndefined();
+    expect(list[2]).toMatchObject({
+      main: { pressure: 1005 },
+      weather: [{ id: 616, description: 'rain and snow' }],
+      wind: { speed: 5.7, deg: 45 },
+      rain: { '3h': 1.875 }
+    });
+    expect(list[2].snow).toBeUndefined();
+  });
+});
+
+describe('sevenTimerResponseSchema', () => {
+  it('rejects entries that do not belong to the product', () => {
+    expect(() => sevenTimerResponseSchema.parse({ ...civil, dataseries: civillight.dataseries })).toThrow(SchemaError);
+    expect(() => sevenTimerResponseSchema.parse({ ...civillight, dataseries: civil.dataseries })).toThrow(SchemaError);
+  });
+});
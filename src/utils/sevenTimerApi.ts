@@ -0,0 +1,242 @@
+import {
+  WeatherResponse,
+  WeatherDataPoint,
+  SevenTimerProduct,
+  SevenTimerResponse,
+  SevenTimerAstroResponse,
+  SevenTimerDataPoint,
+  SevenTimerDailyPoint,
+  WeatherProvider
+} from '../types/weather';
+import { openWeatherMapProvider } from './weatherApi';
+import { fetchJson } from './http';
+import { sevenTimerAstroResponseSchema, sevenTimerResponseSchema } from '../schemas/weather';
+import { getSunTimes } from './astronomy';
+import { getLocationDateKey } from './time';
+
+// 7Timer! is free and needs no API key
+// Documentation: https://www.7timer.info/doc.php
+const SEVEN_TIMER_URL = 'https://www.7timer.info/bin/api.pl';
+
+// Upper bound of each 7Timer cloud cover class (1-9) as a percentage
+export const CLOUD_COVER_PERCENT = [0, 6, 19, 31, 44, 56, 69, 81, 94, 100];
+
+// Representative speed in m/s for each 7Timer wind class (1-8)
+const WIND_SPEED_MS = [0, 0.2, 1.8, 5.7, 9.4, 14, 20.9, 28.6, 34];
+
+// Representative rate in mm/h for each 7Timer precipitation class (0-9)
+const PRECIPITATION_MM_PER_HOUR = [0, 0.125, 0.625, 2.5, 7, 13, 23, 40, 62.5, 75];
+
+const WIND_DIRECTION_DEGREES: Record<string, number> = {
+  N: 0, NE: 45, E: 90, SE: 135, S: 180, SW: 225, W: 270, NW: 315
+};
+
+// 7Timer weather codes mapped onto OpenWeatherMap conditions
+const WEATHER_CONDITIONS: Record<string, { id: number; main: string; description: string; icon: string }> = {
+  clear: { id: 800, main: 'Clear', description: 'clear sky', icon: '01' },
+  pcloudy: { id: 801, main: 'Clouds', description: 'few clouds', icon: '02' },
+  mcloudy: { id: 803, main: 'Clouds', description: 'broken clouds', icon: '04' },
+  cloudy: { id: 804, main: 'Clouds', description: 'overcast clouds', icon: '04' },
+  humid: { id: 701, main: 'Mist', description: 'mist', icon: '50' },
+  lightrain: { id: 500, main: 'Rain', description: 'light rain', icon: '10' },
+  oshower: { id: 521, main: 'Rain', description: 'shower rain', icon: '09' },
+  ishower: { id: 520, main: 'Rain', description: 'light intensity shower rain', icon: '09' },
+  lightsnow: { id: 600, main: 'Snow', description: 'light snow', icon: '13' },
+  rain: { id: 501, main: 'Rain', description: 'moderate rain', icon: '10' },
+  snow: { id: 601, main: 'Snow', description: 'snow', icon: '13' },
+  rainsnow: { id: 616, main: 'Snow', description: 'rain and snow', icon: '13' },
+  ts: { id: 211, main: 'Thunderstorm', description: 'thunderstorm', icon: '11' },
+  tsrain: { id: 201, main: 'Thunderstorm', description: 'thunderstorm with rain', icon: '11' }
+};
+
+// Get forecast data from 7Timer! converted to the OpenWeatherMap forecast shape
+export const fetchSevenTimerForecast = async (
+  lat: number,
+  lon: number,
+  product: SevenTimerProduct = 'civil',
+  signal?: AbortSignal
+): Promise<WeatherResponse> => {
+  const data = await fetchJson(
+    `${SEVEN_TIMER_URL}?lat=${lat}&lon=${lon}&product=${product}&unit=metric&output=json`,
+    '7Timer!',
+    sevenTimerResponseSchema,
+    signal
+  );
+  return convertSevenTimerResponse(data, lat, lon);
+};
+
+// Raw ASTRO forecast (72 hours of seeing, transparency and instability) for stargazing
+export const fetchSevenTimerAstro = (lat: number, lon: number, signal?: AbortSignal): Promise<SevenTimerAstroResponse> =>
+  fetchJson(
+    `${SEVEN_TIMER_URL}?lat=${lat}&lon=${lon}&product=astro&output=json`,
+    '7Timer!',
+    sevenTimerAstroResponseSchema,
+    signal
+  );
+
+// Convert a raw 7Timer response into a WeatherResponse
+export const convertSevenTimerResponse = (
+  data: SevenTimerResponse,
+  lat: number,
+  lon: number
+): WeatherResponse => {
+  const initTime = parseInitTime(data.init);
+
+  const list = data.product === 'civillight'
+    ? data.dataseries.map(point => convertDailyPoint(point, lon))
+    : data.dataseries.map(point => convertDataPoint(point, initTime, lon));
+
+  // 7Timer does not provide sunrise and sunset times, so calculate them for the first day
+  const utcOffset = estimateUtcOffset(lon);
+  const firstDay = getLocationDateKey(list[0]?.dt ?? Math.floor(Date.now() / 1000), utcOffset);
+  const { sunrise, sunset } = getSunTimes(lat, lon, firstDay, utcOffset);
+
+  return {
+    cod: '200',
+    message: 0,
+    cnt: list.length,
+    list,
+    city: {
+      id: 0,
+      name: '',
+      coord: { lat, lon },
+      country: '',
+      population: 0,
+      timezone: utcOffset,
+      // 0 when the sun does not rise or set that day
+      sunrise: sunrise ?? 0,
+      sunset: sunset ?? 0
+    }
+  };
+};
+
+// Parse the "YYYYMMDDHH" model run time (UTC) into epoch milliseconds
+export const parseInitTime = (init: string): number => {
+  const year = Number(init.slice(0, 4));
+  const month = Number(init.slice(4, 6)) - 1;
+  const day = Number(init.slice(6, 8));
+  const hour = Number(init.slice(8, 10));
+  return Date.UTC(year, month, day, hour);
+};
+
+const convertDataPoint = (point: SevenTimerDataPoint, initTime: number, lon: number): WeatherDataPoint => {
+  const date = new Date(initTime + point.timepoint * 3600 * 1000);
+  const isDay = isDaytime(date, lon);
+  const condition = WEATHER_CONDITIONS[getWeatherCode(point)] || WEATHER_CONDITIONS.clear;
+  const precipitation = point.prec_type === 'none'
+    ? 0
+    : PRECIPITATION_MM_PER_HOUR[point.prec_amount ?? 1] * 3;
+  const isSnow = point.prec_type === 'snow' || point.prec_type === 'icep';
+
+  return {
+    dt: Math.floor(date.getTime() / 1000),
+    main: {
+      temp: point.temp2m,
+      feels_like: point.temp2m,
+      temp_min: point.temp2m,
+      temp_max: point.temp2m,
+      pressure: point.msl_pressure ?? 1013,
+      humidity: parseRelativeHumidity(point.rh2m)
+    },
+    weather: [{
+      id: condition.id,
+      main: condition.main,
+      description: condition.description,
+      icon: condition.icon + (isDay ? 'd' : 'n')
+    }],
+    clouds: { all: CLOUD_COVER_PERCENT[point.cloudcover] ?? 0 },
+    wind: {
+      speed: WIND_SPEED_MS[point.wind10m.speed] ?? 0,
+      deg: WIND_DIRECTION_DEGREES[point.wind10m.direction] ?? 0
+    },
+    // 7Timer has no visibility forecast
+    visibility: 10000,
+    // 7Timer forecasts precipitation deterministically, so treat it as certain
+    pop: point.prec_type === 'none' ? 0 : 1,
+    rain: precipitation > 0 && !isSnow ? { '3h': precipitation } : undefined,
+    snow: precipitation > 0 && isSnow ? { '3h': precipitation } : undefined,
+    dt_txt: date.toISOString().replace('T', ' ').slice(0, 19)
+  };
+};
+
+const convertDailyPoint = (point: SevenTimerDailyPoint, lon: number): WeatherDataPoint => {
+  const dateStr = String(point.date);
+  // Place the daily value at local solar noon
+  const date = new Date(
+    Date.UTC(Number(dateStr.slice(0, 4)), Number(dateStr.slice(4, 6)) - 1, Number(dateStr.slice(6, 8)), 12) -
+    estimateUtcOffset(lon) * 1000
+  );
+  const condition = WEATHER_CONDITIONS[point.weather] || WEATHER_CONDITIONS.clear;
+
+  return {
+    dt: Math.floor(date.getTime() / 1000),
+    main: {
+      temp: (point.temp2m.max + point.temp2m.min) / 2,
+      feels_like: (point.temp2m.max + point.temp2m.min) / 2,
+      temp_min: point.temp2m.min,
+      temp_max: point.temp2m.max,
+      pressure: 1013,
+      humidity: 0
+    },
+    weather: [{
+      id: condition.id,
+      main: condition.main,
+      description: condition.description,
+      icon: condition.icon + 'd'
+    }],
+    clouds: { all: 0 },
+    wind: {
+      speed: WIND_SPEED_MS[point.wind10m_max] ?? 0,
+      deg: 0
+    },
+    visibility: 10000,
+    pop: condition.main === 'Rain' || condition.main === 'Snow' || condition.main === 'Thunderstorm' ? 1 : 0,
+    dt_txt: date.toISOString().replace('T', ' ').slice(0, 19)
+  };
+};
+
+// civil carries its own weather code; astro and meteo need one derived from the raw fields
+const getWeatherCode = (point: SevenTimerDataPoint): string => {
+  if (point.weather) {
+    return point.weather.replace(/(day|night)$/, '');
+  }
+
+  const heavy = (point.prec_amount ?? 0) >= 4;
+  if (point.prec_type !== 'none' && point.lifted_index !== undefined && point.lifted_index <= -4) {
+    return 'tsrain';
+  }
+  if (point.prec_type === 'snow') return heavy ? 'snow' : 'lightsnow';
+  if (point.prec_type === 'frzr' || point.prec_type === 'icep') return 'rainsnow';
+  if (point.prec_type === 'rain') return heavy ? 'rain' : 'lightrain';
+
+  if (point.cloudcover <= 2) return 'clear';
+  if (point.cloudcover <= 4) return 'pcloudy';
+  if (point.cloudcover <= 7) return 'mcloudy';
+  return 'cloudy';
+};
+
+// rh2m is "65%" for civil and meteo, and a -4..16 class (5% steps) for astro
+const parseRelativeHumidity = (rh2m: string | number): number => {
+  if (typeof rh2m === 'string') {
+    return parseInt(rh2m, 10) || 0;
+  }
+  return Math.min(100, (rh2m + 4) * 5 + 2.5);
+};
+
+// Approximate the UTC offset in seconds from longitude (15° per hour)
+export const estimateUtcOffset = (lon: number): number => Math.round(lon / 15) * 3600;
+
+export const isDaytime = (date: Date, lon: number): boolean => {
+  const solarHour = (date.getUTCHours() + lon / 15 + 24) % 24;
+  return solarHour >= 6 && solarHour < 18;
+};
+
+// 7Timer has no geocoding service, so place names come from OpenWeatherMap
+export const sevenTimerProvider: WeatherProvider = {
+  id: '7timer',
+  name: '7Timer!',
+  fetchForecast: (lat, lon, options) => fetchSevenTimerForecast(lat, lon, 'civil', options?.signal),
+  geocode: openWeatherMapProvider.geocode,
+  reverseGeocode: openWeatherMapProvider.reverseGeocode,
+  cacheScope: openWeatherMapProvider.cacheScope
+};
@@ -0,0 +1,39 @@
+// Forecast times are UTC epoch seconds; locations carry their UTC offset in seconds
+// (WeatherResponse.city.timezone). Shifting a timestamp by that offset and then
+// reading it with UTC getters gives the wall-clock time at the location,
+// independent of the viewer's own timezone.
+
+export const toLocationDate = (dt: number, utcOffset: number): Date =>
+  new Date((dt + utcOffset) * 1000);
+
+// Calendar day (YYYY-MM-DD) at the location
+export const getLocationDateKey = (dt: number, utcOffset: number): string =>
+  toLocationDate(dt, utcOffset).toISOString().split('T')[0];
+
+export const getLocationHour = (dt: number, utcOffset: number): number =>
+  toLocationDate(dt, utcOffset).getUTCHours();
+
+// Time of day at the location, e.g. "14:00"
+export const formatLocationTime = (dt: number, utcOffset: number, locale = 'en-GB'): string =>
+  toLocationDate(dt, utcOffset).toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit', timeZone: 'UTC' });
+
+// Time of day in the viewer's own timezone
+export const formatViewerTime = (dt: number, locale = 'en-GB'): string =>
+  new Date(dt * 1000).toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' });
+
+// Format a YYYY-MM-DD day key without letting the viewer's timezone shift it
+export const formatDateKey = (dateKey: string, options: Intl.DateTimeFormatOptions, locale = 'en-US'): string =>
+  new Date(`${dateKey}T00:00:00Z`).toLocaleDateString(locale, { ...options, timeZone: 'UTC' });
+
+// "UTC+5:30" style label for an offset in seconds
+export const formatUtcOffset = (utcOffset: number): string => {
+  const sign = utcOffset < 0 ? '-' : '+';
+  const totalMinutes = Math.abs(utcOffset) / 60;
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return `UTC${sign}${hours}${minutes ? `:${String(minutes).padStart(2, '0')}` : ''}`;
+};
+
+// Whether the viewer's timezone currently differs from the location's
+export const differsFromViewer = (utcOffset: number): boolean =>
+  -new Date().getTimezoneOffset() * 60 !== utcOffset;
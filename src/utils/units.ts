@@ -0,0 +1,116 @@
+import {
+  UnitPreferences,
+  TemperatureUnit,
+  WindSpeedUnit,
+  PressureUnit,
+  DistanceUnit,
+  PrecipitationUnit,
+  UnitSystem
+} from '../types/preferences';
+
+// Forecast data is kept in metric internally (°C, km/h, hPa, km, mm) and only
+// converted for display, so providers and aggregation never deal with units.
+
+export const METRIC_UNITS: UnitPreferences = {
+  temperature: 'celsius',
+  windSpeed: 'kmh',
+  pressure: 'hPa',
+  distance: 'km',
+  precipitation: 'mm'
+};
+
+export const IMPERIAL_UNITS: UnitPreferences = {
+  temperature: 'fahrenheit',
+  windSpeed: 'mph',
+  pressure: 'inHg',
+  distance: 'mi',
+  precipitation: 'in'
+};
+
+export const UNIT_SYSTEMS: Record<UnitSystem, UnitPreferences> = {
+  metric: METRIC_UNITS,
+  imperial: IMPERIAL_UNITS
+};
+
+// The preset matching a set of units, or null for a custom mix
+export const getUnitSystem = (units: UnitPreferences): UnitSystem | null => {
+  const matches = (preset: UnitPreferences) =>
+    (Object.keys(preset) as Array<keyof UnitPreferences>).every(key => preset[key] === units[key]);
+  if (matches(METRIC_UNITS)) return 'metric';
+  if (matches(IMPERIAL_UNITS)) return 'imperial';
+  return null;
+};
+
+export const unitLabels = {
+  temperature: { celsius: '°C', fahrenheit: '°F' } as Record<TemperatureUnit, string>,
+  windSpeed: { kmh: 'km/h', ms: 'm/s', mph: 'mph', knots: 'kn', beaufort: 'Bft' } as Record<WindSpeedUnit, string>,
+  pressure: { hPa: 'hPa', inHg: 'inHg', mmHg: 'mmHg' } as Record<PressureUnit, string>,
+  distance: { km: 'km', mi: 'mi' } as Record<DistanceUnit, string>,
+  precipitation: { mm: 'mm', in: 'in' } as Record<PrecipitationUnit, string>
+};
+
+// Upper wind speed limit in m/s of Beaufort forces 0-11; anything above is force 12
+const BEAUFORT_LIMITS_MS = [0.5, 1.6, 3.4, 5.5, 8, 10.8, 13.9, 17.2, 20.8, 24.5, 28.5, 32.7];
+
+export const convertTemperature = (celsius: number, unit: TemperatureUnit): number =>
+  unit === 'fahrenheit' ? celsius * 9 / 5 + 32 : celsius;
+
+export const convertWindSpeed = (kmh: number, unit: WindSpeedUnit): number => {
+  switch (unit) {
+    case 'ms':
+      return kmh / 3.6;
+    case 'mph':
+      return kmh / 1.609344;
+    case 'knots':
+      return kmh / 1.852;
+    case 'beaufort': {
+      const force = BEAUFORT_LIMITS_MS.findIndex(limit => kmh / 3.6 < limit);
+      return force === -1 ? 12 : force;
+    }
+    default:
+      return kmh;
+  }
+};
+
+export const convertPressure = (hPa: number, unit: PressureUnit): number => {
+  switch (unit) {
+    case 'inHg':
+      return hPa * 0.02953;
+    case 'mmHg':
+      return hPa * 0.750062;
+    default:
+      return hPa;
+  }
+};
+
+export const convertDistance = (km: number, unit: DistanceUnit): number =>
+  unit === 'mi' ? km * 0.621371 : km;
+
+export const convertPrecipitation = (mm: number, unit: PrecipitationUnit): number =>
+  unit === 'in' ? mm / 25.4 : mm;
+
+// Inverse conversions, for values the user types in their own units
+
+export const toCelsius = (value: number, unit: TemperatureUnit): number =>
+  unit === 'fahrenheit' ? (value - 32) * 5 / 9 : value;
+
+export const toKmh = (value: number, unit: WindSpeedUnit): number => {
+  switch (unit) {
+    case 'ms':
+      return value * 3.6;
+    case 'mph':
+      return value * 1.609344;
+    case 'knots':
+      return value * 1.852;
+    case 'beaufort': {
+      // Lowest speed of the force, so "above force 7" means force 7 or more
+      const force = Math.min(Math.max(Math.round(value), 0), 12);
+      return force === 0 ? 0 : BEAUFORT_LIMITS_MS[force - 1] * 3.6;
+    }
+    default:
+      return value;
+  }
+};
+
+export const toMillimetres = (value: number, unit: PrecipitationUnit): number =>
+  unit === 'in' ? value * 25.4 : value;
@@ -0,0 +1,78 @@
+import { GeocodingResult } from '../types/weather';
+import { UnitSystem } from '../types/preferences';
+
+export type ForecastView = 'daily' | 'hourly' | 'astro' | 'report';
+
+const FORECAST_VIEWS: ForecastView[] = ['daily', 'hourly', 'astro', 'report'];
+
+// Everything needed to reproduce a forecast view from a link, e.g.
+// ?lat=48.8566&lon=2.3522&name=Paris&country=FR&view=hourly&units=imperial
+export interface UrlState {
+  city: GeocodingResult | null;
+  view: ForecastView;
+  day: string | null;
+  units: UnitSystem | null;
+  source: string | null;
+}
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const parseNumber = (value: string | null, limit: number): number | null => {
+  if (value === null || value.trim() === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) && Math.abs(number) <= limit ? number : null;
+};
+
+export const readUrlState = (search: string): UrlState => {
+  const params = new URLSearchParams(search);
+  const lat = parseNumber(params.get('lat'), 90);
+  const lon = parseNumber(params.get('lon'), 180);
+  const units = params.get('units');
+  const day = params.get('day');
+  const view = params.get('view') as ForecastView | null;
+
+  return {
+    city: lat !== null && lon !== null
+      ? {
+          name: params.get('name') || `${lat.toFixed(4)}°, ${lon.toFixed(4)}°`,
+          country: params.get('country') || '',
+          state: params.get('state') || undefined,
+          lat,
+          lon
+        }
+      : null,
+    view: view && FORECAST_VIEWS.includes(view) ? view : 'daily',
+    day: day && DAY_PATTERN.test(day) ? day : null,
+    units: units === 'metric' || units === 'imperial' ? units : null,
+    source: params.get('source')
+  };
+};
+
+// Home-screen shortcuts open ?favorite=1 to ?favorite=N; returns the zero-based index
+export const readFavoriteShortcut = (search: string): number | null => {
+  const position = Number(new URLSearchParams(search).get('favorite'));
+  return Number.isInteger(position) && position >= 1 ? position - 1 : null;
+};
+
+// Query string for a state; defaults are left out to keep links short
+export const buildUrlSearch = (state: UrlState): string => {
+  const params = new URLSearchParams();
+  if (state.city) {
+    params.set('lat', state.city.lat.toFixed(4));
+    params.set('lon', state.city.lon.toFixed(4));
+    params.set('name', state.city.name);
+    if (state.city.state) params.set('state', state.city.state);
+    if (state.city.country) params.set('country', state.city.country);
+  }
+  if (state.view !== 'daily') params.set('view', state.view);
+  if (state.day) params.set('day', state.day);
+  if (state.units) params.set('units', state.units);
+  if (state.source) params.set('source', state.source);
+
+  const search = params.toString();
+  return search ? `?${search}` : '';
+};
+
+// Whether two states point at different places, which is what gets its own history entry
+export const isDifferentLocation = (a: UrlState, b: UrlState): boolean =>
+  a.city?.lat.toFixed(4) !== b.city?.lat.toFixed(4) || a.city?.lon.toFixed(4) !== b.city?.lon.toFixed(4);
@@ -1,179 +1,164 @@
-import { WeatherResponse, ProcessedWeatherData, GeocodingResult } from '../types/weather';
+import {
+  WeatherResponse,
+  ProcessedWeatherData,
+  HourlyForecastData,
+  GeocodingResult,
+  WeatherProvider,
+  ForecastOptions
+} from '../types/weather';
+import { getApiKey, getApiKeyFingerprint } from './apiKey';
+import { WeatherApiError } from './errors';
+import { fetchJson } from './http';
+import { geocodingResultsSchema, weatherResponseSchema } from '../schemas/weather';
+import { generateDemoWeather } from './demoWeather';
+import { aggregateDailyForecasts, getWindDirection } from './dailyAggregation';
+import { getLocationDateKey, formatLocationTime } from './time';
+import { getDistanceKm } from './geolocation';
 
-// Replace 'demo_key' with your actual OpenWeatherMap API key
+// Configure your OpenWeatherMap API key in the settings panel or via VITE_OPENWEATHERMAP_API_KEY
 // Get a free API key at: https://openweathermap.org/api
-const API_KEY = 'demo_key';
 const BASE_URL = 'https://api.openweathermap.org/data/2.5';
 const GEO_URL = 'https://api.openweathermap.org/geo/1.0';
+const SERVICE_NAME = 'OpenWeatherMap';
+const DEMO_NEARBY_KM = 75;
 
-// Check if we have a valid API key
-const hasValidApiKey = () => API_KEY !== 'demo_key' && API_KEY.length > 10;
+// Check if an API key has been configured
+const hasValidApiKey = () => getApiKey() !== null;
+
+// The configured key as a query parameter value
+const getKeyParam = () => encodeURIComponent(getApiKey() ?? '');
+
+export type ApiKeyStatus = 'valid' | 'invalid' | 'rate-limited' | 'error';
+
+// Check a key with a lightweight test request before it is saved
+export const validateApiKey = async (key: string): Promise<ApiKeyStatus> => {
+  try {
+    const response = await fetch(
+      `${BASE_URL}/weather?lat=0&lon=0&appid=${encodeURIComponent(key.trim())}`
+    );
+
+    if (response.ok) return 'valid';
+    if (response.status === 401) return 'invalid';
+    if (response.status === 429) return 'rate-limited';
+    return 'error';
+  } catch (error) {
+    console.warn('API key validation error:', error);
+    return 'error';
+  }
+};
+
+const missingKeyError = () =>
+  new WeatherApiError('auth', 'No OpenWeatherMap API key configured. Add one in Settings or switch to another data source.');
 
 // Search for cities by name with comprehensive global coverage
-export const searchCities = async (query: string): Promise<GeocodingResult[]> => {
+export const searchCities = async (query: string, signal?: AbortSignal): Promise<GeocodingResult[]> => {
   if (query.length < 2) return [];
   
-  // If no valid API key, return demo cities with global representation
+  // Without an API key, search the built-in list of cities with global representation
   if (!hasValidApiKey()) {
     return getGlobalDemoCities(query);
   }
   
-  try {
-    // Use OpenWeatherMap's geocoding API for comprehensive global city search
-    const response = await fetch(
-      `${GEO_URL}/direct?q=${encodeURIComponent(query)}&limit=15&appid=${API_KEY}`
-    );
-    
-    if (!response.ok) {
-      console.warn('City search failed, using demo data');
-      return getGlobalDemoCities(query);
-    }
-    
-    const data = await response.json();
-    
-    // Remove duplicates and sort by relevance
-    const uniqueCities = removeDuplicateCities(data);
-    return sortCitiesByRelevance(uniqueCities, query);
-  } catch (error) {
-    console.warn('City search error, using demo data:', error);
-    return getGlobalDemoCities(query);
-  }
+  // Use OpenWeatherMap's geocoding API for comprehensive global city search
+  const data = await fetchJson(
+    `${GEO_URL}/direct?q=${encodeURIComponent(query)}&limit=15&appid=${getKeyParam()}`,
+    SERVICE_NAME,
+    geocodingResultsSchema,
+    signal
+  );
+  
+  // Remove duplicates and sort by relevance
+  const uniqueCities = removeDuplicateCities(data);
+  return sortCitiesByRelevance(uniqueCities, query);
 };
 
 // Enhanced city search with state/province support
-export const searchCitiesAdvanced = async (query: string, limit: number = 20): Promise<GeocodingResult[]> => {
+export const searchCitiesAdvanced = async (
+  query: string,
+  limit: number = 20,
+  signal?: AbortSignal
+): Promise<GeocodingResult[]> => {
   if (query.length < 2) return [];
   
   if (!hasValidApiKey()) {
     return getGlobalDemoCities(query);
   }
   
-  try {
-    // Search with higher limit for better coverage
-    const response = await fetch(
-      `${GEO_URL}/direct?q=${encodeURIComponent(query)}&limit=${limit}&appid=${API_KEY}`
-    );
-    
-    if (!response.ok) {
-      return getGlobalDemoCities(query);
-    }
-    
-    const data = await response.json();
-    return removeDuplicateCities(data);
-  } catch (error) {
-    console.warn('Advanced city search error:', error);
-    return getGlobalDemoCities(query);
-  }
+  // Search with higher limit for better coverage
+  const data = await fetchJson(
+    `${GEO_URL}/direct?q=${encodeURIComponent(query)}&limit=${limit}&appid=${getKeyParam()}`,
+    SERVICE_NAME,
+    geocodingResultsSchema,
+    signal
+  );
+  return removeDuplicateCities(data);
 };
 
 // Search cities by coordinates (reverse geocoding)
-export const searchCitiesByCoordinates = async (lat: number, lon: number): Promise<GeocodingResult[]> => {
+export const searchCitiesByCoordinates = async (
+  lat: number,
+  lon: number,
+  signal?: AbortSignal
+): Promise<GeocodingResult[]> => {
   if (!hasValidApiKey()) {
-    return [{
-      name: 'Demo Location',
-      country: 'XX',
-      lat,
-      lon
-    }];
+    throw missingKeyError();
   }
   
-  try {
-    const response = await fetch(
-      `${GEO_URL}/reverse?lat=${lat}&lon=${lon}&limit=5&appid=${API_KEY}`
-    );
-    
-    if (!response.ok) {
-      throw new Error('Reverse geocoding failed');
-    }
-    
-    return await response.json();
-  } catch (error) {
-    console.warn('Reverse geocoding error:', error);
-    return [];
-  }
+  return fetchJson(
+    `${GEO_URL}/reverse?lat=${lat}&lon=${lon}&limit=5&appid=${getKeyParam()}`,
+    SERVICE_NAME,
+    geocodingResultsSchema,
+    signal
+  );
 };
 
 // Get weather data for a specific location
-export const fetchWeatherData = async (lat: number, lon: number): Promise<WeatherResponse> => {
-  // If no valid API key, return demo data immediately
+export const fetchWeatherData = async (
+  lat: number,
+  lon: number,
+  { lang, signal }: ForecastOptions = {}
+): Promise<WeatherResponse> => {
   if (!hasValidApiKey()) {
-    console.info('Using demo weather data. To get real weather data, please add your OpenWeatherMap API key to src/utils/weatherApi.ts');
-    return getDemoWeatherData(lat, lon);
+    throw missingKeyError();
   }
   
-  try {
-    const response = await fetch(
-      `${BASE_URL}/forecast?lat=${lat}&lon=${lon}&appid=${API_KEY}&units=metric`
-    );
-    
-    if (!response.ok) {
-      console.warn('Weather API failed, using demo data');
-      return getDemoWeatherData(lat, lon);
-    }
-    
-    const data = await response.json();
-    return data;
-  } catch (error) {
-    console.warn('Weather API Error, using demo data:', error);
-    return getDemoWeatherData(lat, lon);
-  }
+  // Always request metric; values are converted to the user's units at display time
+  return fetchJson(
+    `${BASE_URL}/forecast?lat=${lat}&lon=${lon}&appid=${getKeyParam()}&units=metric${lang ? `&lang=${lang}` : ''}`,
+    SERVICE_NAME,
+    weatherResponseSchema,
+    signal
+  );
 };
 
 // Process weather data into daily forecasts
 export const processWeatherData = (data: WeatherResponse): ProcessedWeatherData[] => {
-  const dailyForecasts: ProcessedWeatherData[] = [];
-  const processedDates = new Set<string>();
-  
-  // Group by date and take one forecast per day (preferably midday)
-  data.list.forEach((forecast) => {
-    const date = new Date(forecast.dt * 1000);
-    const dateStr = date.toISOString().split('T')[0];
-    const hour = date.getHours();
-    
-    // Skip if we already have this date, unless this is closer to midday
-    if (processedDates.has(dateStr)) {
-      const existingIndex = dailyForecasts.findIndex(f => f.date === dateStr);
-      if (existingIndex >= 0) {
-        const existingForecast = dailyForecasts[existingIndex];
-        const existingDate = new Date(existingForecast.date + 'T12:00:00');
-        const existingHour = existingDate.getHours();
-        if (Math.abs(hour - 12) >= Math.abs(existingHour - 12)) {
-          return;
-        }
-        // Replace with better time
-        dailyForecasts.splice(existingIndex, 1);
-        processedDates.delete(dateStr);
-      }
-    }
-    
-    if (dailyForecasts.length >= 7) return;
-    
-    processedDates.add(dateStr);
-    
-    const windDirection = getWindDirection(forecast.wind.deg);
-    const precipitationAmount = (forecast.rain?.['3h'] || 0) + (forecast.snow?.['3h'] || 0);
-    
-    dailyForecasts.push({
-      date: dateStr,
-      dayOfWeek: date.toLocaleDateString('en-US', { weekday: 'long' }),
-      temperature: Math.round(forecast.main.temp),
-      tempMin: Math.round(forecast.main.temp_min),
-      tempMax: Math.round(forecast.main.temp_max),
+  return aggregateDailyForecasts(data.list, data.city.timezone);
+};
+
+// Process weather data into 3-hour slots for the hourly timeline
+export const processHourlyData = (data: WeatherResponse): HourlyForecastData[] => {
+  return data.list.map((forecast) => {
+    return {
+      dt: forecast.dt,
+      date: getLocationDateKey(forecast.dt, data.city.timezone),
+      time: formatLocationTime(forecast.dt, data.city.timezone),
+      temperature: forecast.main.temp,
+      feelsLike: forecast.main.feels_like,
+      pop: Math.round(forecast.pop * 100),
+      windSpeed: forecast.wind.speed * 3.6, // Convert m/s to km/h
+      windGust: (forecast.wind.gust ?? forecast.wind.speed) * 3.6,
+      windDeg: forecast.wind.deg,
+      windDirection: getWindDirection(forecast.wind.deg),
+      pressure: forecast.main.pressure,
+      precipitation: (forecast.rain?.['3h'] || 0) + (forecast.snow?.['3h'] || 0),
+      precipitationType: forecast.snow?.['3h'] ? 'snow' : forecast.rain?.['3h'] ? 'rain' : 'none',
+      conditionId: forecast.weather[0].id,
       condition: forecast.weather[0].main,
       description: forecast.weather[0].description,
-      humidity: forecast.main.humidity,
-      windSpeed: Math.round(forecast.wind.speed * 3.6), // Convert m/s to km/h
-      windDirection,
-      precipitation: precipitationAmount,
-      precipitationType: forecast.snow?.['3h'] ? 'snow' : forecast.rain?.['3h'] ? 'rain' : 'none',
-      cloudCover: Math.round(forecast.clouds.all / 10), // Convert percentage to 0-10 scale
-      icon: forecast.weather[0].icon,
-      pressure: forecast.main.pressure,
-      visibility: Math.round(forecast.visibility / 1000) // Convert to km
-    });
+      icon: forecast.weather[0].icon
+    };
   });
-  
-  return dailyForecasts.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
 };
 
 // Utility functions
@@ -206,13 +191,6 @@ const sortCitiesByRelevance = (cities: GeocodingResult[], query: string): Geocod
   });
 };
 
-// Convert wind degrees to direction
-const getWindDirection = (degrees: number): string => {
-  const directions = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE', 'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'];
-  const index = Math.round(degrees / 22.5) % 16;
-  return directions[index];
-};
-
 // Get weather icon emoji
 export const getWeatherIcon = (iconCode: string): string => {
   const iconMap: Record<string, string> = {
@@ -230,7 +208,7 @@ export const getWeatherIcon = (iconCode: string): string => {
 };
 
 // Comprehensive global demo cities representing all continents and major regions
-const getGlobalDemoCities = (query: string): GeocodingResult[] => {
+const getDemoCityList = (): GeocodingResult[] => {
   const globalCities = [
     // Africa
     { name: 'Lagos', country: 'NG', state: 'Lagos', lat: 6.5244, lon: 3.3792 },
@@ -499,78 +477,43 @@ const getGlobalDemoCities = (query: string): GeocodingResult[] => {
     { name: 'Redcliffe', country: 'VU', lat: -15.4667, lon: 167.8333 }
   ];
   
+  return globalCities;
+};
+
+const getGlobalDemoCities = (query: string): GeocodingResult[] => {
   const lowerQuery = query.toLowerCase();
-  return globalCities.filter(city => 
+  return getDemoCityList().filter(city => 
     city.name.toLowerCase().includes(lowerQuery) ||
     city.country.toLowerCase().includes(lowerQuery) ||
     (city.state && city.state.toLowerCase().includes(lowerQuery))
   ).slice(0, 15);
 };
 
-const getDemoWeatherData = (lat: number, lon: number): WeatherResponse => {
-  const now = new Date();
-  const list = [];
-  
-  // Generate varied weather conditions for demo
-  const conditions = [
-    { main: 'Clear', description: 'clear sky', icon: '01d' },
-    { main: 'Clouds', description: 'few clouds', icon: '02d' },
-    { main: 'Clouds', description: 'scattered clouds', icon: '03d' },
-    { main: 'Rain', description: 'light rain', icon: '10d' },
-    { main: 'Clouds', description: 'overcast clouds', icon: '04d' },
-    { main: 'Thunderstorm', description: 'thunderstorm', icon: '11d' },
-    { main: 'Snow', description: 'light snow', icon: '13d' },
-    { main: 'Mist', description: 'mist', icon: '50d' }
-  ];
-  
-  for (let i = 0; i < 40; i++) {
-    const date = new Date(now.getTime() + i * 3 * 60 * 60 * 1000);
-    const condition = conditions[Math.floor(Math.random() * conditions.length)];
-    const baseTemp = 18 + Math.sin(i * 0.3) * 8; // Simulate daily temperature variation
-    
-    list.push({
-      dt: Math.floor(date.getTime() / 1000),
-      main: {
-        temp: baseTemp + (Math.random() - 0.5) * 4,
-        feels_like: baseTemp + (Math.random() - 0.5) * 4 + 2,
-        temp_min: baseTemp - 3 + (Math.random() - 0.5) * 2,
-        temp_max: baseTemp + 5 + (Math.random() - 0.5) * 2,
-        pressure: 1013 + Math.random() * 20 - 10,
-        humidity: 45 + Math.random() * 40
-      },
-      weather: [{
-        id: 800,
-        main: condition.main,
-        description: condition.description,
-        icon: condition.icon
-      }],
-      clouds: { all: Math.random() * 100 },
-      wind: {
-        speed: Math.random() * 8 + 1,
-        deg: Math.random() * 360
-      },
-      visibility: 8000 + Math.random() * 4000,
-      pop: condition.main === 'Rain' ? 0.6 + Math.random() * 0.3 : Math.random() * 0.2,
-      dt_txt: date.toISOString().replace('T', ' ').slice(0, 19),
-      rain: condition.main === 'Rain' ? { '3h': Math.random() * 3 } : undefined,
-      snow: condition.main === 'Snow' ? { '3h': Math.random() * 2 } : undefined
-    });
-  }
-  
-  return {
-    cod: '200',
-    message: 0,
-    cnt: 40,
-    list,
-    city: {
-      id: 1,
-      name: 'Demo City',
-      coord: { lat, lon },
-      country: 'XX',
-      population: 1000000,
-      timezone: 0,
-      sunrise: Math.floor(Date.now() / 1000),
-      sunset: Math.floor(Date.now() / 1000) + 12 * 3600
-    }
-  };
-};
\ No newline at end of file
+// Without a geocoder, name a position after the closest built-in city when it is nearby
+const getNearestDemoCities = (lat: number, lon: number): GeocodingResult[] => {
+  const [nearest] = getDemoCityList().sort((a, b) =>
+    getDistanceKm(lat, lon, a.lat, a.lon) - getDistanceKm(lat, lon, b.lat, b.lon)
+  );
+  return nearest && getDistanceKm(lat, lon, nearest.lat, nearest.lon) <= DEMO_NEARBY_KM
+    ? [{ ...nearest, lat, lon }]
+    : [];
+};
+
+export const openWeatherMapProvider: WeatherProvider = {
+  id: 'openweathermap',
+  name: 'OpenWeatherMap',
+  fetchForecast: (lat, lon, options) => fetchWeatherData(lat, lon, options),
+  geocode: (query, limit, options) => limit === undefined
+    ? searchCities(query, options?.signal)
+    : searchCitiesAdvanced(query, limit, options?.signal),
+  reverseGeocode: (lat, lon, options) => searchCitiesByCoordinates(lat, lon, options?.signal),
+  cacheScope: getApiKeyFingerprint
+};
+
+export const demoProvider: WeatherProvider = {
+  id: 'demo',
+  name: 'Demo data',
+  fetchForecast: async (lat, lon) => generateDemoWeather(lat, lon),
+  geocode: async (query, limit) => query.length < 2 ? [] : getGlobalDemoCities(query).slice(0, limit),
+  reverseGeocode: async (lat, lon) => getNearestDemoCities(lat, lon)
+};
@@ -1,9 +1,52 @@
-import { defineConfig } from 'vite';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { createHash } from 'node:crypto';
+import { readFileSync, readdirSync, writeFileSync } from 'node:fs';
+import { join, relative } from 'node:path';
+
+const SERVICE_WORKER = 'sw.js';
+
+const listFiles = (dir: string): string[] =>
+  readdirSync(dir, { withFileTypes: true }).flatMap(entry =>
+    entry.isDirectory() ? listFiles(join(dir, entry.name)) : [join(dir, entry.name)]
+  );
+
+// Fill in the service worker's precache list with every file of the finished build
+const precacheManifest = (): Plugin => {
+  let outDir = '';
+  let publicDir = '';
+  let files: string[] = [];
+
+  return {
+    name: 'precache-manifest',
+    apply: 'build',
+    configResolved(config) {
+      outDir = config.build.outDir;
+      publicDir = config.publicDir;
+    },
+    generateBundle(_options, bundle) {
+      const publicFiles = publicDir
+        ? listFiles(publicDir).map(file => relative(publicDir, file).split('\\').join('/'))
+        : [];
+      files = [...Object.keys(bundle), ...publicFiles]
+        .filter(file => file !== SERVICE_WORKER)
+        .sort();
+    },
+    // Public files keep their names across releases, so the version hashes contents, not names
+    writeBundle() {
+      const path = join(outDir, SERVICE_WORKER);
+      const hash = createHash('sha256');
+      files.forEach(file => hash.update(file).update('\0').update(readFileSync(join(outDir, file))));
+      const version = hash.digest('hex').slice(0, 12);
+      const manifest = JSON.stringify({ version, files: files.map(file => `./${file}`) });
+      writeFileSync(path, readFileSync(path, 'utf8').replace('self.__PRECACHE_MANIFEST__', manifest));
+    },
+  };
+};
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), precacheManifest()],
   optimizeDeps: {
     exclude: ['lucide-react'],
   },